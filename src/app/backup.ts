@@ -0,0 +1,212 @@
+/**
+ * Backups of refs moved by git-rescribe
+ * Each run saves the old value of every ref it moves under
+ * refs/rescribe/backup/<run id>/, where the run id is a Unix timestamp,
+ * and the value it moved them to under refs/rescribe/rewritten/<run id>/
+ * A detached HEAD is saved as refs/rescribe/backup/<run id>/HEAD
+ */
+
+import {
+  deleteRef,
+  getConfig,
+  getCurrentRef,
+  getRefHash,
+  hasUncommittedChanges,
+  listRefs,
+  updateCurrentBranch,
+  updateRef,
+} from "../lib/git.ts";
+
+const BACKUP_PREFIX = "refs/rescribe/backup";
+const REWRITTEN_PREFIX = "refs/rescribe/rewritten";
+const DEFAULT_KEEP_BACKUPS = 10;
+
+/**
+ * A ref moved by a run
+ */
+export interface BackupRef {
+  ref: string; // Original ref name
+  value: string; // Value before the run
+  rewritten: string | null; // Value the run left it at (unknown for old backups)
+}
+
+/**
+ * The refs saved by one run
+ */
+export interface Backup {
+  id: string;
+  date: Date;
+  refs: BackupRef[];
+}
+
+/**
+ * Save the old and new values of refs that a run has moved
+ * Returns the run id
+ */
+export async function saveBackup(refs: BackupRef[]): Promise<string> {
+  const existing = new Set((await listBackups()).map((backup) => backup.id));
+  let id = Math.floor(Date.now() / 1000);
+  while (existing.has(String(id))) {
+    id++;
+  }
+
+  for (const { ref, value, rewritten } of refs) {
+    await updateRef(backupRef(BACKUP_PREFIX, String(id), ref), value, {
+      message: "rescribe: backup",
+    });
+    if (rewritten) {
+      await updateRef(
+        backupRef(REWRITTEN_PREFIX, String(id), ref),
+        rewritten,
+        { message: "rescribe: backup" },
+      );
+    }
+  }
+
+  return String(id);
+}
+
+/**
+ * List saved backups, newest first
+ */
+export async function listBackups(): Promise<Backup[]> {
+  const backups = new Map<string, Backup>();
+  const rewritten = new Map<string, string>();
+
+  for (const { name, object } of await listRefs([REWRITTEN_PREFIX])) {
+    rewritten.set(name.substring(REWRITTEN_PREFIX.length), object);
+  }
+
+  for (const { name, object } of await listRefs([BACKUP_PREFIX])) {
+    // refs/rescribe/backup/<id>/heads/main -> refs/heads/main
+    const [id, ...rest] = name.substring(BACKUP_PREFIX.length + 1).split("/");
+    if (!backups.has(id)) {
+      backups.set(id, { id, date: new Date(Number(id) * 1000), refs: [] });
+    }
+    const ref = rest.join("/") === "HEAD" ? "HEAD" : `refs/${rest.join("/")}`;
+    backups.get(id)!.refs.push({
+      ref,
+      value: object,
+      rewritten: rewritten.get(name.substring(BACKUP_PREFIX.length)) ?? null,
+    });
+  }
+
+  return [...backups.values()].sort((a, b) => Number(b.id) - Number(a.id));
+}
+
+/**
+ * Restore every ref from the newest backup, then remove that backup
+ * Refuses when a ref has moved since the run, or when restoring the current
+ * branch would throw away uncommitted changes
+ * Returns the restored backup, or null if there is none
+ */
+export async function restoreLatestBackup(): Promise<Backup | null> {
+  const [latest] = await listBackups();
+  if (!latest) {
+    return null;
+  }
+
+  const currentRef = await getCurrentRef();
+  const message = `rescribe: undo ${latest.id}`;
+
+  // A detached HEAD can only be restored while HEAD is still detached
+  const detached = latest.refs.find(({ ref }) => ref === "HEAD");
+  if (detached && currentRef !== "HEAD") {
+    throw new Error(
+      `Backup ${latest.id} is of a detached HEAD at ${detached.value}. ` +
+        `Run 'git checkout --detach' first, then try again.`,
+    );
+  }
+
+  // Commits made since the run would be lost, so check every ref first
+  for (const { ref, rewritten } of latest.refs) {
+    const now = await getRefHash(ref);
+    if (rewritten && now !== rewritten) {
+      throw new Error(
+        `${ref} has moved since backup ${latest.id} was made ` +
+          `(${rewritten.substring(0, 7)} -> ${
+            now?.substring(0, 7) ?? "deleted"
+          }). Undoing would lose those changes.`,
+      );
+    }
+  }
+  if (
+    latest.refs.some(({ ref }) => ref === currentRef) &&
+    await hasUncommittedChanges()
+  ) {
+    throw new Error(
+      "You have uncommitted changes, which undoing would throw away. " +
+        "Commit or stash them first.",
+    );
+  }
+
+  for (const { ref, value, rewritten } of latest.refs) {
+    if (ref === currentRef) {
+      // Also brings the working tree back
+      await updateCurrentBranch(value, message, rewritten ?? undefined);
+    } else {
+      await updateRef(ref, value, {
+        oldValue: rewritten ?? undefined,
+        message,
+      });
+    }
+  }
+
+  await deleteBackup(latest);
+  return latest;
+}
+
+/**
+ * Number of backups to keep, from rescribe.keepBackups (default 10)
+ * 0 turns backups off
+ */
+export async function getKeepBackups(): Promise<number> {
+  const value = await getConfig("rescribe.keepBackups");
+  if (value === null) {
+    return DEFAULT_KEEP_BACKUPS;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(
+      `Invalid rescribe.keepBackups '${value}'. ` +
+        "Use the number of backups to keep (0 keeps none)",
+    );
+  }
+  return Number(value);
+}
+
+/**
+ * Remove all but the newest backups
+ * Keeps rescribe.keepBackups (default 10) unless told otherwise
+ * Returns the number of backups removed
+ */
+export async function pruneBackups(keep?: number): Promise<number> {
+  keep ??= await getKeepBackups();
+
+  const stale = (await listBackups()).slice(keep);
+  for (const backup of stale) {
+    await deleteBackup(backup);
+  }
+  return stale.length;
+}
+
+/**
+ * Delete all refs of a backup
+ */
+async function deleteBackup(backup: Backup): Promise<void> {
+  for (const { ref, rewritten } of backup.refs) {
+    await deleteRef(backupRef(BACKUP_PREFIX, backup.id, ref));
+    if (rewritten) {
+      await deleteRef(backupRef(REWRITTEN_PREFIX, backup.id, ref));
+    }
+  }
+}
+
+/**
+ * Name of the ref holding the backup of a ref, under one of the prefixes
+ */
+function backupRef(prefix: string, id: string, ref: string): string {
+  if (ref === "HEAD") {
+    return `${prefix}/${id}/HEAD`;
+  }
+  return `${prefix}/${id}/${ref.substring("refs/".length)}`;
+}
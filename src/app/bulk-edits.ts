@@ -0,0 +1,199 @@
+/**
+ * Built-in transforms for common rewrites
+ * Used by the set-author, reword, reset-dates and add-coauthor subcommands,
+ * and by the --tui editor
+ */
+
+import { formatIsoDate, parseIsoDate } from "../lib/date.ts";
+import type { CommitTransform, RescribeCommit } from "./types.ts";
+
+/**
+ * Which commits a bulk edit applies to
+ */
+export interface BulkEditFilter {
+  whereEmail?: string; // Only commits authored with this email
+}
+
+/**
+ * Set the author of every matching commit
+ */
+export function setAuthor(
+  identity: string,
+  filter: BulkEditFilter = {},
+): CommitTransform {
+  return (commits) =>
+    commits.map((commit) =>
+      matches(commit, filter)
+        ? { ...commit, author: { ...commit.author, identity } }
+        : commit
+    );
+}
+
+/**
+ * Rewrite every matching message with a sed-style "s/pattern/replacement/flags"
+ * The replacement uses JavaScript syntax ($1, $&) and the flags are g, i and m
+ */
+export function reword(
+  expression: string,
+  filter: BulkEditFilter = {},
+): CommitTransform {
+  const { pattern, replacement } = parseSubstitution(expression);
+  return (commits) =>
+    commits.map((commit) =>
+      matches(commit, filter)
+        ? { ...commit, message: commit.message.replace(pattern, replacement) }
+        : commit
+    );
+}
+
+/**
+ * Set author and/or committer dates of every matching commit
+ * Takes any date the YAML accepts; "author" and "committer" copy the date
+ * from the other role
+ */
+export function resetDates(
+  dates: { author?: string; committer?: string },
+  filter: BulkEditFilter = {},
+): CommitTransform {
+  if (dates.author === "author" || dates.committer === "committer") {
+    throw new Error("A date can't be reset to itself");
+  }
+  if (dates.author === "committer" && dates.committer === "author") {
+    throw new Error("Author and committer dates can't be copied both ways");
+  }
+
+  return (commits) =>
+    commits.map((commit) => {
+      if (!matches(commit, filter)) {
+        return commit;
+      }
+
+      const author = { ...commit.author };
+      const committer = { ...commit.committer };
+      if (dates.author === "committer") {
+        author.date = commit.committer.date;
+      } else if (dates.author !== undefined) {
+        author.date = dates.author;
+      }
+      if (dates.committer === "author") {
+        committer.date = "same-as-author";
+      } else if (dates.committer !== undefined) {
+        committer.date = dates.committer;
+      }
+
+      return { ...commit, author, committer };
+    });
+}
+
+/**
+ * Move author and committer dates of every matching commit by a number of
+ * seconds, keeping their offsets
+ * Dates that aren't ISO 8601 (like "same-as-author") are left alone
+ */
+export function shiftDates(
+  seconds: number,
+  filter: BulkEditFilter = {},
+): CommitTransform {
+  const shift = (date: string) => {
+    const parsed = parseIsoDate(date);
+    return parsed
+      ? formatIsoDate({ ...parsed, timestamp: parsed.timestamp + seconds })
+      : date;
+  };
+
+  return (commits) =>
+    commits.map((commit) =>
+      matches(commit, filter)
+        ? {
+          ...commit,
+          author: { ...commit.author, date: shift(commit.author.date) },
+          committer: {
+            ...commit.committer,
+            date: shift(commit.committer.date),
+          },
+        }
+        : commit
+    );
+}
+
+/**
+ * Add a co-author to every matching commit that doesn't have it yet
+ */
+export function addCoauthor(
+  identity: string,
+  filter: BulkEditFilter = {},
+): CommitTransform {
+  return (commits) =>
+    commits.map((commit) => {
+      const coauthors = commit.coauthors ?? [];
+      if (!matches(commit, filter) || coauthors.includes(identity)) {
+        return commit;
+      }
+      return { ...commit, coauthors: [...coauthors, identity] };
+    });
+}
+
+/**
+ * Check a commit against a filter
+ */
+function matches(commit: RescribeCommit, filter: BulkEditFilter): boolean {
+  if (filter.whereEmail !== undefined) {
+    const email = commit.author.identity.match(/<(.+?)>$/)?.[1];
+    if (email?.toLowerCase() !== filter.whereEmail.toLowerCase()) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Parse "s/pattern/replacement/flags", with any delimiter after the "s"
+ * A delimiter inside the pattern or replacement can be escaped with "\"
+ */
+function parseSubstitution(
+  expression: string,
+): { pattern: RegExp; replacement: string } {
+  const delimiter = expression[1];
+  if (expression[0] !== "s" || !delimiter || /[\w\s\\]/.test(delimiter)) {
+    throw new Error(
+      `Invalid substitution '${expression}'. Use s/pattern/replacement/`,
+    );
+  }
+
+  // Split on unescaped delimiters
+  const parts: string[] = [""];
+  for (let i = 2; i < expression.length; i++) {
+    const char = expression[i];
+    if (char === "\\" && expression[i + 1] === delimiter) {
+      parts[parts.length - 1] += delimiter;
+      i++;
+    } else if (char === delimiter) {
+      parts.push("");
+    } else {
+      parts[parts.length - 1] += char;
+    }
+  }
+
+  if (parts.length !== 3) {
+    throw new Error(
+      `Invalid substitution '${expression}'. Use s/pattern/replacement/`,
+    );
+  }
+
+  const [source, replacement, flags] = parts;
+  if (!/^[gim]*$/.test(flags)) {
+    throw new Error(
+      `Invalid substitution flags '${flags}'. Use g, i and m`,
+    );
+  }
+
+  try {
+    return { pattern: new RegExp(source, flags), replacement };
+  } catch (error) {
+    throw new Error(
+      `Invalid pattern in '${expression}': ${
+        error instanceof Error ? error.message : error
+      }`,
+    );
+  }
+}
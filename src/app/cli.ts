@@ -5,27 +5,167 @@
 
 import { openEditor } from "../lib/editor.ts";
 import { exists } from "../lib/fs.ts";
-import { truncate } from "../lib/string.ts";
-import { countCommits, getCurrentBranch, resolveRef } from "../lib/git.ts";
+import {
+  applyAutostash,
+  closeObjectReader,
+  countCommits,
+  getConfig,
+  getConfigBool,
+  getCurrentRef,
+  getRefHash,
+  listCommits,
+  resolveRef,
+  resolveRevisions,
+  updateCurrentBranch,
+  updateRef,
+} from "../lib/git.ts";
+import { listBackups, pruneBackups, restoreLatestBackup } from "./backup.ts";
 import { convertGitGraphToYaml } from "./converter.ts";
+import { formatRebaseTodo, importRebaseTodo } from "./rebase-todo.ts";
+import {
+  addCoauthor,
+  type BulkEditFilter,
+  resetDates,
+  reword,
+  setAuthor,
+} from "./bulk-edits.ts";
 import { executeRescribe } from "./executor.ts";
+import { runCommitMsgHooks, runPreRescribeHook } from "./hooks.ts";
+import { lintPlan } from "./lint.ts";
+import { runTui } from "./tui.ts";
+import {
+  formatPlan,
+  parsePlanFormat,
+  PLAN_FORMATS,
+  planFileExtension,
+  type PlanFormat,
+  planFormatFromPath,
+  planFormatHasComments,
+} from "./plan-formats.ts";
+import { formatPlanJson } from "./plan-json.ts";
 import { createPlan, type RebasePlan } from "./planner.ts";
-
-const RESCRIBE_TODO = ".git/RESCRIBE_TODO.yml";
-const RESCRIBE_STATE = ".git/RESCRIBE_STATE";
+import { printPlan } from "./preview.ts";
+import {
+  checkHeadUnchanged,
+  checkNoOperationInProgress,
+  checkWorkingTreeClean,
+  prepareWorkingTree,
+} from "./preflight.ts";
+import { clearState, readState, writeState } from "./state.ts";
+import { applyTransform, loadTransform } from "./transform.ts";
+import type { CommitTransform, Log } from "./types.ts";
+import { annotateWithIssues, PlanValidationError } from "./validation.ts";
+
+// The extension says which format the plan is in (.yml, .json, .toml, .sh)
+const RESCRIBE_TODO = ".git/RESCRIBE_TODO";
 
 // Global flag for --yes
 let skipConfirmation = false;
 
+// Global flag for --autosquash / --no-autosquash (null = use git config)
+let autosquash: boolean | null = null;
+
+// Global options for --use-mailmap / --mailmap <file>
+let useMailmap = false;
+let mailmapFile: string | null = null;
+
+// Global flag for --update-refs / --no-update-refs (null = use git config)
+let updateRefs: boolean | null = null;
+
+// Global flag for --autostash / --no-autostash (null = use git config)
+let autostash: boolean | null = null;
+
+// Global flag for --committer-date-is-author-date
+let committerDateIsAuthorDate = false;
+
+// Global flag for --sign / --no-sign (null = use git config)
+let sign: boolean | null = null;
+
+// Global flag for --dry-run
+let dryRun = false;
+
+// Global option for --format (how the plan is shown)
+let outputFormat: "text" | "json" = "text";
+
+// Global output for progress messages (stderr with --format json, so
+// stdout only carries the JSON plan)
+let log: Log = console.log;
+
+// Global flag for --edit (open the editor after a transform)
+let editAfterTransform = false;
+
+// Global option for --plan-format (null = rescribe.planFormat, or yaml)
+let planFormat: PlanFormat | null = null;
+
+// Global flag for --no-verify (skip the pre-rescribe and commit-msg hooks)
+let verifyHooks = true;
+
+// Global flag for --stat (diffstats for commits whose tree changes)
+let showStat = false;
+
+// Global flag for --tui (edit the plan full-screen instead of in $EDITOR)
+let useTui = false;
+
+// Global options for --from-rebase-todo / --to-rebase-todo <file>
+let fromRebaseTodo: string | null = null;
+let toRebaseTodo: string | null = null;
+
+// Global option for --branches <name>... (rescribed along with HEAD)
+let branches: string[] = [];
+
+// Options that take a value, as "--name value" or "--name=value"
+const VALUE_OPTIONS = [
+  "--mailmap",
+  "--format",
+  "--plan-format",
+  "--from-rebase-todo",
+  "--to-rebase-todo",
+  "--transform",
+  "--where-email",
+  "--regex",
+  "--author",
+  "--committer",
+];
+
+// Subcommands that edit every commit in the range without the editor
+// (each takes this many arguments before the base)
+const BULK_EDITS: Record<string, number> = {
+  "set-author": 1,
+  "reword": 0,
+  "reset-dates": 0,
+  "add-coauthor": 1,
+};
+
 /**
  * Start a new interactive rebase
+ * With a transform, the commits go through it first, and the editor is only
+ * opened with --edit
  */
-export async function startRebase(base: string): Promise<void> {
+export async function startRebase(
+  base: string,
+  transform: CommitTransform | null = null,
+): Promise<void> {
   // Check if rebase already in progress
-  if (await exists(RESCRIBE_TODO)) {
+  if (await findTodo()) {
     throw new Error("Rescribe already in progress. Use --continue or --abort");
   }
 
+  // Checked before anything is stashed or written, so nothing is left behind
+  if (
+    useTui && (!transform || editAfterTransform) &&
+    !(Deno.stdin.isTerminal() && Deno.stdout.isTerminal())
+  ) {
+    throw new Error("--tui needs a terminal");
+  }
+
+  await checkNoOperationInProgress();
+
+  for (const branch of branches) {
+    if (!await resolveRef(`refs/heads/${branch}`)) {
+      throw new Error(`Branch '${branch}' not found`);
+    }
+  }
+
   // Validate base and count commits
   const validation = await validateBase(base);
   if (!validation.valid) {
@@ -49,30 +189,123 @@ export async function startRebase(base: string): Promise<void> {
     Deno.exit(1);
   }
 
-  console.log(`Starting rescribe from ${base}...`);
-  console.log(
+  if (verifyHooks) {
+    await runPreRescribeHook(base);
+  }
+
+  log(`Starting rescribe from ${base}...`);
+  log(
     `This will process ${validation.commitCount} commit${
       validation.commitCount === 1 ? "" : "s"
     }.`,
   );
 
-  // Query git commit graph directly and generate YAML
-  console.log("Generating YAML from commit history...");
-  const yaml = await convertGitGraphToYaml(base);
-  await Deno.writeTextFile(RESCRIBE_TODO, yaml);
+  const format = planFormat ?? parsePlanFormat(
+    await getConfig("rescribe.planFormat") ?? "yaml",
+  );
+  const todo = `${RESCRIBE_TODO}${planFileExtension(format)}`;
+
+  // Query git commit graph directly and generate the plan, or take it from
+  // a rebase todo list
+  let source: string;
+  if (fromRebaseTodo) {
+    log(`Reading rebase todo list ${fromRebaseTodo}...`);
+    const commits = await importRebaseTodo(
+      await Deno.readTextFile(fromRebaseTodo),
+      base,
+    );
+    source = formatPlan({ commits }, format);
+  } else {
+    log("Generating plan from commit history...");
+    source = await convertGitGraphToYaml(base, {
+      autosquash: autosquash ?? await getConfigBool("rebase.autoSquash") ??
+        false,
+      useMailmap,
+      mailmapFile: mailmapFile ?? undefined,
+      committerDateIsAuthorDate,
+      format,
+      branches,
+    });
+  }
+
+  if (transform) {
+    log("Running transform...");
+    source = await applyTransform(source, format, transform);
+  }
+
+  // Make sure the final reset can't throw away uncommitted changes
+  // (a dry run never resets, so it can leave them where they are)
+  const autostashHash = dryRun ? null : await prepareWorkingTree(
+    autostash ?? await getConfigBool("rebase.autoStash") ?? false,
+    log,
+  );
+
+  await Deno.writeTextFile(todo, source);
 
   // Save original HEAD
-  const originalRef = await getCurrentBranch();
-  await Deno.writeTextFile(RESCRIBE_STATE, originalRef);
+  await writeState({
+    ref: await getCurrentRef(),
+    head: (await getRefHash("HEAD"))!,
+    autostash: autostashHash,
+    // Fixed now, so --continue can't change them halfway through
+    sign: sign ?? await getConfigBool("commit.gpgSign") ?? false,
+    updateRefs: updateRefs ?? await getConfigBool("rebase.updateRefs") ??
+      false,
+    range: await resolveRevisions(validation.range),
+    journal: [],
+  });
+
+  const editAndContinue = async () => {
+    // Open editor for user to edit the plan (after a transform, only with
+    // --edit)
+    if ((!transform || editAfterTransform) && useTui) {
+      if (!await runTui(todo)) {
+        log("Quit without saving.");
+        await abortRebase();
+        return;
+      }
+      log("Plan saved. Applying changes...");
+    } else if (!transform || editAfterTransform) {
+      log("Opening editor...");
+      await openEditor(todo);
+      log("\nEditor closed. Applying changes...");
+    }
 
-  // Open editor for user to edit YAML
-  console.log("Opening editor...");
-  await openEditor(RESCRIBE_TODO);
+    // Automatically continue after editor exits
+    await continueRebase();
+  };
 
-  console.log("\nEditor closed. Applying changes...");
+  if (!dryRun) {
+    await editAndContinue();
+    return;
+  }
 
-  // Automatically continue after editor exits
-  await continueRebase();
+  // A dry run from scratch leaves nothing behind to --continue,
+  // even when the editor fails
+  try {
+    await editAndContinue();
+  } finally {
+    try {
+      await Deno.remove(todo);
+    } catch {
+      // Ignore errors
+    }
+    await clearState();
+  }
+}
+
+/**
+ * Find the plan of an in-progress rescribe, in whichever format it is
+ * Returns null if there is none
+ */
+async function findTodo(): Promise<string | null> {
+  for (const format of PLAN_FORMATS) {
+    const todo = `${RESCRIBE_TODO}${planFileExtension(format)}`;
+    if (await exists(todo)) {
+      return todo;
+    }
+  }
+  return null;
 }
 
 /**
@@ -82,119 +315,439 @@ async function validateBase(base: string): Promise<{
   valid: boolean;
   commitCount: number;
   totalCommits: number;
+  range: string[]; // Revisions naming the commits being rescribed
 }> {
   // Get total commit count in current branch
   const totalCommits = await countCommits("HEAD");
 
   // Special case: --root means all commits
   if (base === "--root") {
-    return { valid: true, commitCount: totalCommits, totalCommits };
+    const range = ["HEAD", ...branches.map((branch) => `refs/heads/${branch}`)];
+    return {
+      valid: true,
+      commitCount: branches.length > 0
+        ? await countCommits(range)
+        : totalCommits,
+      totalCommits,
+      range,
+    };
   }
 
   // Try to resolve the base ref
   const valid = await resolveRef(base);
   if (!valid) {
-    return { valid: false, commitCount: 0, totalCommits };
+    return { valid: false, commitCount: 0, totalCommits, range: [] };
   }
 
-  // Count commits between base and HEAD
-  const commitCount = await countCommits(`${base}..HEAD`);
+  // Count commits between base and HEAD (and the other branches)
+  const range = [
+    "HEAD",
+    ...branches.map((branch) => `refs/heads/${branch}`),
+    `^${base}`,
+  ];
+  const commitCount = await countCommits(range);
 
-  return { valid: true, commitCount, totalCommits };
+  return { valid: true, commitCount, totalCommits, range };
 }
 
 /**
  * Preview changes and get user confirmation
  */
 async function previewChanges(plan: RebasePlan): Promise<void> {
-  console.log(
-    `\nPlan for ${plan.commits.length} commit${
-      plan.commits.length === 1 ? "" : "s"
-    }:`,
-  );
-
-  for (const commitPlan of plan.commits) {
-    const firstLine = commitPlan.commit.message.split("\n")[0];
-    const truncated = truncate(firstLine, 60);
-
-    const status = commitPlan.action === "reuse" ? "  Reuse" : " Modify";
-    console.log(`${status}  ${truncated}`);
-
-    // Show what changed for modified commits
-    if (commitPlan.action === "create" && commitPlan.changes.length > 0) {
-      for (const change of commitPlan.changes) {
-        console.log(`         - ${change}`);
-      }
-    }
+  if (outputFormat === "json") {
+    await Deno.stdout.write(
+      new TextEncoder().encode(`${formatPlanJson(plan)}\n`),
+    );
+  } else {
+    await printPlan(plan, {
+      color: Deno.stdout.isTerminal() && !Deno.env.get("NO_COLOR"),
+      stat: showStat,
+    });
   }
 
   // Wait for confirmation unless --yes flag
-  if (!skipConfirmation) {
-    console.log("\nPress Enter to continue or Ctrl+C to cancel...");
+  if (!skipConfirmation && !dryRun) {
+    log("\nPress Enter to continue or Ctrl+C to cancel...");
     const buf = new Uint8Array(1);
     await Deno.stdin.read(buf);
   }
 }
 
+/**
+ * Create a plan from the TODO file
+ * While it has problems, offer to reopen the editor with them listed at the
+ * top, like git rebase does
+ */
+async function createPlanWithRetry(
+  todo: string,
+  options: Parameters<typeof createPlan>[1],
+): Promise<RebasePlan> {
+  while (true) {
+    try {
+      const plan = await createPlan(todo, options);
+      if (verifyHooks) {
+        await runCommitMsgHooks(plan, todo);
+      }
+      await lintPlan(plan, todo, { mailmapFile: mailmapFile ?? undefined });
+      return plan;
+    } catch (error) {
+      if (
+        !(error instanceof PlanValidationError) || skipConfirmation ||
+        !Deno.stdin.isTerminal()
+      ) {
+        throw error;
+      }
+
+      console.error(`\n${error.message}`);
+      const answer = prompt("\nReopen the editor to fix this? [Y/n]");
+      if (answer !== null && /^n/i.test(answer.trim())) {
+        throw error;
+      }
+
+      // JSON has no comments, so the problems are only shown above
+      if (planFormatHasComments(planFormatFromPath(todo)!)) {
+        const source = await Deno.readTextFile(todo);
+        await Deno.writeTextFile(
+          todo,
+          annotateWithIssues(source, error.issues),
+        );
+      }
+      await openEditor(todo);
+    }
+  }
+}
+
 /**
  * Continue an in-progress rebase
  */
 export async function continueRebase(): Promise<void> {
-  if (!await exists(RESCRIBE_TODO)) {
+  const todo = await findTodo();
+  if (!todo) {
     throw new Error(
       "No rescribe in progress. Did you run 'git-rescribe <base>' first?",
     );
   }
 
+  const state = await readState();
+  if (!state) {
+    throw new Error("Rescribe state is missing. Use --abort to start over.");
+  }
+
+  // Make sure nothing changed under us since the rescribe started
+  await checkNoOperationInProgress();
+  await checkHeadUnchanged(state);
+  if (!dryRun) {
+    await checkWorkingTreeClean();
+  }
+
+  // Signing and --update-refs keep what the rescribe started with, unless
+  // a flag on --continue says otherwise; the flag then sticks for later runs
+  if (!dryRun && (sign !== null || updateRefs !== null)) {
+    state.sign = sign ?? state.sign;
+    state.updateRefs = updateRefs ?? state.updateRefs;
+    await writeState(state);
+  }
+
   // Create plan
-  const plan = await createPlan(RESCRIBE_TODO);
+  const plan = await createPlanWithRetry(todo, {
+    updateRefs: updateRefs ?? state.updateRefs ??
+      await getConfigBool("rebase.updateRefs") ?? false,
+    sign: sign ?? state.sign ?? await getConfigBool("commit.gpgSign") ?? false,
+  });
 
   // Preview changes and get confirmation
   await previewChanges(plan);
 
-  console.log("\nApplying changes...");
-  await executeRescribe(plan);
+  if (dryRun) {
+    if (toRebaseTodo) {
+      await Deno.writeTextFile(toRebaseTodo, formatRebaseTodo(plan));
+      log(`\nWrote rebase todo list to ${toRebaseTodo}`);
+    }
+    log("\nDry run, nothing was changed.");
+    return;
+  }
+
+  log("\nApplying changes...");
+  try {
+    await executeRescribe(plan, {
+      log,
+      originals: state.range ? await listCommits(state.range) : [],
+      journal: state.journal,
+      onJournal: async (entries) => {
+        state.journal.push(...entries);
+        await writeState(state);
+      },
+    });
+  } catch (error) {
+    // Everything applied so far is journaled, so --continue can pick up here
+    console.error(
+      `\nStopped after ${state.journal.length} of ${plan.commits.length} ` +
+        `commits. Fix the problem (entries that haven't been applied yet ` +
+        `can still be edited in ${todo}), then run ` +
+        `'git-rescribe --continue', or 'git-rescribe --abort' to give up.`,
+    );
+    throw error;
+  }
 
   // Clean up
-  console.log("\nCleaning up...");
+  log("\nCleaning up...");
   try {
-    await Deno.remove(RESCRIBE_TODO);
-    await Deno.remove(RESCRIBE_STATE);
+    await Deno.remove(todo);
   } catch {
     // Ignore errors
   }
+  await clearState();
+
+  if (state.autostash) {
+    await restoreAutostash(state.autostash);
+  }
 }
 
 /**
  * Abort the current rebase
  */
 export async function abortRebase(): Promise<void> {
-  console.log("Aborting rescribe...");
+  log("Aborting rescribe...");
+
+  const state = await readState().catch(() => null);
+
+  // Put the branch back where it was, in case it was already moved
+  if (state) {
+    await restoreOriginalRef(state.ref, state.head);
+  }
 
   // Clean up state files
-  try {
-    await Deno.remove(RESCRIBE_TODO);
-    await Deno.remove(RESCRIBE_STATE);
-    console.log("Cleaned up rescribe state");
-  } catch {
-    console.log("No rescribe state to clean up");
+  const todo = await findTodo();
+  if (todo) {
+    await Deno.remove(todo);
+    log("Cleaned up rescribe state");
+  } else {
+    log("No rescribe state to clean up");
+  }
+  await clearState();
+
+  if (state?.autostash) {
+    await restoreAutostash(state.autostash);
+  }
+}
+
+/**
+ * Point a ref back at the commit it had when the rescribe started
+ */
+async function restoreOriginalRef(ref: string, head: string): Promise<void> {
+  if (await getRefHash(ref) === head) {
+    return;
+  }
+
+  const message = "rescribe: abort";
+  if (await getCurrentRef() === ref) {
+    await updateCurrentBranch(head, message);
+  } else if (ref === "HEAD") {
+    log(
+      `The rescribe started on a detached HEAD at ${head}. ` +
+        `Run 'git checkout --detach ${head}' to go back to it.`,
+    );
+    return;
+  } else {
+    await updateRef(ref, head, { message });
+  }
+  log(`Restored ${ref} to ${head.substring(0, 7)}`);
+}
+
+/**
+ * Bring back changes stashed away when the rescribe started
+ */
+async function restoreAutostash(hash: string): Promise<void> {
+  if (await applyAutostash(hash)) {
+    log("Applied autostash.");
+  } else {
+    log(
+      "Applying autostash resulted in conflicts.\n" +
+        "Your changes are safe in the stash. " +
+        "You can run 'git stash pop' or 'git stash drop' at any time.",
+    );
+  }
+}
+
+/**
+ * Restore the refs moved by the last rescribe
+ */
+export async function undoRescribe(): Promise<void> {
+  if (await findTodo()) {
+    throw new Error("Rescribe in progress. Use --continue or --abort first");
+  }
+
+  const backup = await restoreLatestBackup();
+  if (!backup) {
+    log("No rescribe backups to restore");
+    return;
+  }
+
+  log(
+    `Restored backup ${backup.id} from ${backup.date.toLocaleString()}:`,
+  );
+  for (const { ref, value } of backup.refs) {
+    log(`  ${ref} -> ${value.substring(0, 7)}`);
+  }
+}
+
+/**
+ * Print saved backups, newest first
+ */
+export async function showBackups(): Promise<void> {
+  const backups = await listBackups();
+  if (backups.length === 0) {
+    log("No rescribe backups");
+    return;
+  }
+
+  for (const backup of backups) {
+    log(`${backup.id}  ${backup.date.toLocaleString()}`);
+    for (const { ref, value } of backup.refs) {
+      log(`  ${ref} ${value.substring(0, 7)}`);
+    }
   }
 }
 
+/**
+ * Delete all saved backups
+ */
+export async function removeBackups(): Promise<void> {
+  const removed = await pruneBackups(0);
+  log(`Removed ${removed} backup${removed === 1 ? "" : "s"}`);
+}
+
 /**
  * Main CLI entry point
  * Parses arguments and dispatches to appropriate workflow
  */
 export async function main(): Promise<void> {
-  const args = Deno.args;
+  try {
+    await dispatch(Deno.args);
+  } finally {
+    await closeObjectReader();
+  }
+}
 
+/**
+ * Run the workflow the arguments ask for
+ */
+async function dispatch(args: string[]): Promise<void> {
   // Check for --yes flag
   if (args.includes("--yes") || args.includes("-y")) {
     skipConfirmation = true;
   }
 
-  // Filter out flags to get positional args
-  const positionalArgs = args.filter((arg) => !arg.startsWith("-"));
+  // Check for --autosquash / --no-autosquash flags
+  if (args.includes("--autosquash")) {
+    autosquash = true;
+  } else if (args.includes("--no-autosquash")) {
+    autosquash = false;
+  }
+
+  // Check for mailmap options
+  if (args.includes("--use-mailmap")) {
+    useMailmap = true;
+  }
+  mailmapFile = getOptionValue(args, "--mailmap");
+
+  // Check for --update-refs / --no-update-refs flags
+  if (args.includes("--update-refs")) {
+    updateRefs = true;
+  } else if (args.includes("--no-update-refs")) {
+    updateRefs = false;
+  }
+
+  // Check for --autostash / --no-autostash flags
+  if (args.includes("--autostash")) {
+    autostash = true;
+  } else if (args.includes("--no-autostash")) {
+    autostash = false;
+  }
+
+  // Check for --sign / --no-sign flags
+  if (args.includes("--sign")) {
+    sign = true;
+  } else if (args.includes("--no-sign")) {
+    sign = false;
+  }
+
+  // Check for --committer-date-is-author-date flag
+  if (args.includes("--committer-date-is-author-date")) {
+    committerDateIsAuthorDate = true;
+  }
+
+  // Check for --dry-run flag and --format option
+  if (args.includes("--dry-run")) {
+    dryRun = true;
+  }
+  const format = getOptionValue(args, "--format");
+  if (format !== null) {
+    if (format !== "text" && format !== "json") {
+      throw new Error(`Unknown format '${format}'. Use text or json`);
+    }
+    outputFormat = format;
+  }
+  const planFormatValue = getOptionValue(args, "--plan-format");
+  if (planFormatValue !== null) {
+    planFormat = parsePlanFormat(planFormatValue);
+  }
+  if (outputFormat === "json") {
+    // Keep stdout for the JSON plan; progress messages go to stderr
+    log = console.error;
+  }
+
+  // Check for rebase todo list options (exporting one never rewrites)
+  fromRebaseTodo = getOptionValue(args, "--from-rebase-todo");
+  toRebaseTodo = getOptionValue(args, "--to-rebase-todo");
+  if (toRebaseTodo !== null) {
+    dryRun = true;
+  }
+
+  // Check for --stat flag
+  if (args.includes("--stat")) {
+    showStat = true;
+  }
+
+  // Check for --tui flag
+  if (args.includes("--tui")) {
+    useTui = true;
+  }
+
+  // Check for --edit flag
+  if (args.includes("--edit")) {
+    editAfterTransform = true;
+  }
+
+  // Check for --no-verify flag
+  if (args.includes("--no-verify")) {
+    verifyHooks = false;
+  }
+
+  // Check for --branches, which takes every name up to the next option
+  const branchesIndex = args.indexOf("--branches");
+  if (branchesIndex !== -1) {
+    let end = branchesIndex + 1;
+    while (end < args.length && !args[end].startsWith("-")) {
+      end++;
+    }
+    branches = args.slice(branchesIndex + 1, end);
+    if (branches.length === 0) {
+      throw new Error("--branches requires at least one branch name");
+    }
+    if (fromRebaseTodo !== null) {
+      throw new Error(
+        "--branches can't be combined with --from-rebase-todo " +
+          "(use update-ref lines in the todo list instead)",
+      );
+    }
+    args = [...args.slice(0, branchesIndex), ...args.slice(end)];
+  }
+
+  // Filter out flags and option values to get positional args
+  const positionalArgs = args.filter((arg, index) =>
+    !arg.startsWith("-") && !VALUE_OPTIONS.includes(args[index - 1])
+  );
 
   // Check for flags
   if (args.includes("--abort")) {
@@ -207,9 +760,42 @@ export async function main(): Promise<void> {
     return;
   }
 
+  if (args.includes("--undo")) {
+    await undoRescribe();
+    return;
+  }
+
+  if (args.includes("--list-backups")) {
+    await showBackups();
+    return;
+  }
+
+  if (args.includes("--prune-backups")) {
+    await removeBackups();
+    return;
+  }
+
+  // Load the transform first, so a broken one fails before anything changes
+  const transformPath = getOptionValue(args, "--transform");
+  let transform = transformPath ? await loadTransform(transformPath) : null;
+
+  // Bulk edits are built-in transforms
+  if (Object.hasOwn(BULK_EDITS, positionalArgs[0])) {
+    const [name, ...rest] = positionalArgs;
+    const operands = rest.splice(0, BULK_EDITS[name]);
+    if (operands.length < BULK_EDITS[name]) {
+      throw new Error(`${name} requires an identity, like "Name <email>"`);
+    }
+    if (transform) {
+      throw new Error(`${name} can't be combined with --transform`);
+    }
+    transform = createBulkEdit(name, operands, args);
+    positionalArgs.splice(0, positionalArgs.length, ...rest);
+  }
+
   // Start new rebase
   if (args.includes("--root")) {
-    await startRebase("--root");
+    await startRebase("--root", transform);
     return;
   }
 
@@ -223,8 +809,85 @@ export async function main(): Promise<void> {
     console.error("  git-rescribe --root        Rescribe all commits");
     console.error("  git-rescribe --continue    Continue in-progress rescribe");
     console.error("  git-rescribe --abort       Abort in-progress rescribe");
+    console.error(
+      "  git-rescribe --undo        Restore refs from the last run",
+    );
+    console.error("  git-rescribe --list-backups");
+    console.error("                             List saved backups");
+    console.error("  git-rescribe --prune-backups");
+    console.error("                             Delete all saved backups");
+    console.error("\nBulk edits (no editor; same range and options):");
+    console.error(
+      '  git-rescribe set-author "Name <email>" <base> [--where-email <old>]',
+    );
+    console.error(
+      "  git-rescribe reword --regex 's/pattern/replacement/' <base>",
+    );
+    console.error(
+      "  git-rescribe reset-dates --committer=author <base>",
+    );
+    console.error(
+      '  git-rescribe add-coauthor "Name <email>" <base> [--where-email <addr>]',
+    );
     console.error("\nOptions:");
     console.error("  --yes, -y                  Skip confirmation prompt");
+    console.error(
+      "  --autosquash               Fold fixup!/squash!/amend! commits into targets",
+    );
+    console.error(
+      "  --use-mailmap              Map identities through the repo's .mailmap",
+    );
+    console.error(
+      "  --mailmap <file>           Map identities through a mailmap file",
+    );
+    console.error(
+      "  --update-refs              Also move branches and tags in the range",
+    );
+    console.error(
+      "  --autostash                Stash uncommitted changes while rewriting",
+    );
+    console.error(
+      "  --sign, --no-sign          Sign rewritten commits (default: commit.gpgSign)",
+    );
+    console.error(
+      "  --committer-date-is-author-date",
+    );
+    console.error(
+      "                             Set committer dates to the author dates",
+    );
+    console.error(
+      "  --transform <file>         Rewrite the commits with a TypeScript function",
+    );
+    console.error(
+      "  --edit                     Open the editor after --transform",
+    );
+    console.error(
+      "  --dry-run                  Show the plan without applying it",
+    );
+    console.error(
+      "  --format <text|json>       How to show the plan (json for scripts)",
+    );
+    console.error(
+      "  --stat                     Show a diffstat for commits whose content changes",
+    );
+    console.error(
+      "  --plan-format <format>     Edit the plan as yaml, json, toml or script",
+    );
+    console.error(
+      "  --no-verify                Skip the pre-rescribe and commit-msg hooks",
+    );
+    console.error(
+      "  --tui                      Edit the commits full-screen instead of in $EDITOR",
+    );
+    console.error(
+      "  --from-rebase-todo <file>  Start from a git rebase -i todo list",
+    );
+    console.error(
+      "  --to-rebase-todo <file>    Write the plan as a git rebase -i todo list",
+    );
+    console.error(
+      "  --branches <name>...       Also rescribe these branches, sharing history",
+    );
     console.error("\nExamples:");
     console.error("  git-rescribe HEAD~5        Rescribe last 5 commits");
     console.error(
@@ -234,5 +897,62 @@ export async function main(): Promise<void> {
   }
 
   const base = positionalArgs[0];
-  await startRebase(base);
+  await startRebase(base, transform);
+}
+
+/**
+ * Create the transform for a bulk edit subcommand
+ */
+function createBulkEdit(
+  name: string,
+  operands: string[],
+  args: string[],
+): CommitTransform {
+  const filter: BulkEditFilter = {
+    whereEmail: getOptionValue(args, "--where-email") ?? undefined,
+  };
+
+  switch (name) {
+    case "set-author":
+      return setAuthor(operands[0], filter);
+    case "reword": {
+      const expression = getOptionValue(args, "--regex");
+      if (expression === null) {
+        throw new Error("reword requires --regex 's/pattern/replacement/'");
+      }
+      return reword(expression, filter);
+    }
+    case "reset-dates": {
+      const author = getOptionValue(args, "--author") ?? undefined;
+      const committer = getOptionValue(args, "--committer") ?? undefined;
+      if (author === undefined && committer === undefined) {
+        throw new Error(
+          "reset-dates requires --author=<date> and/or --committer=<date>",
+        );
+      }
+      return resetDates({ author, committer }, filter);
+    }
+    case "add-coauthor":
+      return addCoauthor(operands[0], filter);
+    default:
+      throw new Error(`Unknown subcommand '${name}'`);
+  }
+}
+
+/**
+ * Get the value of an option given as "--name value" or "--name=value"
+ */
+function getOptionValue(args: string[], name: string): string | null {
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === name) {
+      if (i + 1 >= args.length) {
+        throw new Error(`${name} requires a value`);
+      }
+      return args[i + 1];
+    }
+    if (args[i].startsWith(`${name}=`)) {
+      return args[i].substring(name.length + 1);
+    }
+  }
+  return null;
 }
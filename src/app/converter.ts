@@ -1,27 +1,77 @@
 /**
- * Convert between git commits and rescribe YAML format
+ * Convert between git commits and rescribe plan files
  */
 
-import { formatIdentity, getCommitInfo } from "../lib/git.ts";
-import { formatYaml } from "./yaml-prettier.ts";
+import {
+  checkMailmap,
+  formatIdentity,
+  getCommitInfo,
+  getCurrentBranch,
+  resolveCommitHash,
+} from "../lib/git.ts";
+import { createProgress } from "../lib/progress.ts";
+import { extractTrailers } from "../lib/trailers.ts";
+import { formatPlan, type PlanFormat } from "./plan-formats.ts";
 import type { RescribeCommit } from "./types.ts";
 
 /**
- * Query git commit graph and convert to rescribe YAML
+ * Query git commit graph and convert to a rescribe plan (YAML by default)
  */
-export async function convertGitGraphToYaml(base: string): Promise<string> {
-  // Get list of commits to process in topological order
-  const revListArgs = base === "--root"
-    ? ["rev-list", "--topo-order", "--reverse", "HEAD"]
-    : ["rev-list", "--topo-order", "--reverse", `${base}..HEAD`];
+export async function convertGitGraphToYaml(
+  base: string,
+  options: {
+    autosquash?: boolean;
+    useMailmap?: boolean;
+    mailmapFile?: string;
+    committerDateIsAuthorDate?: boolean;
+    format?: PlanFormat;
+    branches?: string[];
+  } = {},
+): Promise<string> {
+  const {
+    autosquash = false,
+    useMailmap = false,
+    mailmapFile,
+    committerDateIsAuthorDate = false,
+    format = "yaml",
+    branches = [],
+  } = options;
 
+  // Get list of commits to process in topological order, with the
+  // abbreviations git considers unique for them and their parents
+  // Other branches are walked together with HEAD, so history they share is
+  // listed once
+  const tips = ["HEAD", ...branches.map((branch) => `refs/heads/${branch}`)];
+  const range = base === "--root" ? tips : [...tips, `^${base}`];
   const revList = new Deno.Command("git", {
-    args: revListArgs,
+    args: [
+      "log",
+      "--topo-order",
+      "--reverse",
+      "--format=%H %h|%P|%p",
+      ...range,
+      "--",
+    ],
     stdout: "piped",
   });
   const { stdout } = await revList.output();
-  const commitHashes = new TextDecoder().decode(stdout).trim().split("\n")
-    .filter(Boolean);
+  const commitHashes: string[] = [];
+  const abbreviations = new Map<string, string>();
+  for (const line of new TextDecoder().decode(stdout).split("\n")) {
+    if (!line) {
+      continue;
+    }
+    const [commit, parents, shortParents] = line.split("|");
+    const [hash, shortHash] = commit.split(" ");
+    commitHashes.push(hash);
+    abbreviations.set(hash, shortHash);
+    const shortList = shortParents.split(" ");
+    parents.split(" ").filter(Boolean).forEach((parent, i) => {
+      abbreviations.set(parent, shortList[i]);
+    });
+  }
+  const abbreviate = (hash: string) =>
+    abbreviations.get(hash) ?? hash.substring(0, 7);
 
   // Build a map of commit hash -> index for parent resolution
   const commitIndexMap = new Map<string, number>();
@@ -29,10 +79,12 @@ export async function convertGitGraphToYaml(base: string): Promise<string> {
     commitIndexMap.set(hash, index);
   });
 
-  // Process each commit
+  // Process each commit (reads all go through one git process)
+  const progress = createProgress("Reading commits", commitHashes.length);
   const yamlCommits = await Promise.all(
     commitHashes.map(async (hash, index) => {
       const info = await getCommitInfo(hash);
+      progress.tick();
 
       // Determine parent references
       let parentRefs: string[];
@@ -50,10 +102,10 @@ export async function convertGitGraphToYaml(base: string): Promise<string> {
           parentRefs = ["previous"];
         } else if (commitIndexMap.has(parentHash)) {
           // Parent is in our rebase range but not sequential - use rewritten reference
-          parentRefs = [`rewritten:${parentHash.substring(0, 7)}`];
+          parentRefs = [`rewritten:${abbreviate(parentHash)}`];
         } else {
           // Parent is outside our rebase range
-          parentRefs = [parentHash.substring(0, 7)];
+          parentRefs = [abbreviate(parentHash)];
         }
       } else {
         // Merge commit - multiple parents
@@ -68,31 +120,187 @@ export async function convertGitGraphToYaml(base: string): Promise<string> {
             return "previous";
           } else if (commitIndexMap.has(parentHash)) {
             // Parent is in our rebase range - use rewritten reference
-            return `rewritten:${parentHash.substring(0, 7)}`;
+            return `rewritten:${abbreviate(parentHash)}`;
           } else {
             // Parent is outside rebase range
-            return parentHash.substring(0, 7);
+            return abbreviate(parentHash);
           }
         });
       }
 
-      const rescribeCommit: RescribeCommit = {
-        author: {
-          date: info.authorDate,
-          identity: formatIdentity(info.authorName, info.authorEmail),
-        },
-        committer: {
-          date: info.committerDate,
-          identity: formatIdentity(info.committerName, info.committerEmail),
-        },
-        content: `commit:${hash.substring(0, 7)}`,
-        message: info.message,
-        parents: parentRefs,
-      };
-
-      return rescribeCommit;
+      return toRescribeCommit(info, `commit:${abbreviate(hash)}`, parentRefs);
     }),
   );
+  progress.done();
 
-  return await formatYaml({ commits: yamlCommits });
+  if (branches.length > 0) {
+    await markBranchTips(yamlCommits, commitIndexMap, branches);
+  }
+
+  if (useMailmap || mailmapFile) {
+    await applyMailmap(yamlCommits, mailmapFile);
+  }
+
+  if (committerDateIsAuthorDate) {
+    for (const commit of yamlCommits) {
+      commit.committer.date = "same-as-author";
+    }
+  }
+
+  return formatPlan({
+    commits: autosquash ? autosquashCommits(yamlCommits) : yamlCommits,
+  }, format);
+}
+
+/**
+ * Turn an existing commit into a plan entry, keeping its metadata
+ */
+export function toRescribeCommit(
+  info: Awaited<ReturnType<typeof getCommitInfo>>,
+  content: string,
+  parents: string[],
+): RescribeCommit {
+  // Co-authors get their own field instead of living in the message
+  const { message, values: coauthors } = extractTrailers(
+    info.message,
+    "Co-authored-by",
+  );
+
+  return {
+    author: {
+      date: info.authorDate,
+      identity: formatIdentity(info.authorName, info.authorEmail),
+    },
+    ...(coauthors.length > 0 ? { coauthors } : {}),
+    committer: {
+      date: info.committerDate,
+      identity: formatIdentity(info.committerName, info.committerEmail),
+    },
+    content,
+    message,
+    parents,
+  };
+}
+
+/**
+ * Record which entries are the tips of the current branch and of the other
+ * branches being rescribed, in place
+ */
+async function markBranchTips(
+  commits: RescribeCommit[],
+  commitIndexMap: Map<string, number>,
+  branches: string[],
+): Promise<void> {
+  const currentBranch = await getCurrentBranch();
+  if (currentBranch === "HEAD") {
+    throw new Error("--branches needs a branch to be checked out");
+  }
+
+  for (const branch of [currentBranch, ...branches]) {
+    const hash = await resolveCommitHash(`refs/heads/${branch}`);
+    if (!hash) {
+      throw new Error(`Branch '${branch}' not found`);
+    }
+    const index = commitIndexMap.get(hash);
+    if (index === undefined) {
+      throw new Error(`Branch '${branch}' has no commits after the base`);
+    }
+    const commit = commits[index];
+    if (!commit.branches?.includes(branch)) {
+      commit.branches = [...(commit.branches ?? []), branch];
+    }
+  }
+}
+
+/**
+ * Rewrite every identity through the mailmap, in place
+ */
+async function applyMailmap(
+  commits: RescribeCommit[],
+  mailmapFile: string | undefined,
+): Promise<void> {
+  const identities = commits.flatMap((commit) => [
+    commit.author.identity,
+    commit.committer.identity,
+    ...(commit.coauthors ?? []),
+  ]);
+  const mapped = await checkMailmap(identities, { file: mailmapFile });
+  const map = (identity: string) => mapped.get(identity) ?? identity;
+
+  for (const commit of commits) {
+    commit.author.identity = map(commit.author.identity);
+    commit.committer.identity = map(commit.committer.identity);
+    if (commit.coauthors) {
+      commit.coauthors = [...new Set(commit.coauthors.map(map))];
+    }
+  }
+}
+
+/**
+ * Fold "fixup!", "squash!" and "amend!" commits into their targets,
+ * like git rebase --autosquash
+ */
+function autosquashCommits(commits: RescribeCommit[]): RescribeCommit[] {
+  const result: RescribeCommit[] = [];
+  // Index of the first entry whose squashed commits were not adjacent
+  let firstReordered = Infinity;
+
+  for (const commit of commits) {
+    const [subject, ...bodyLines] = commit.message.split("\n");
+    const match = subject.match(/^(fixup|squash|amend)! (.*)$/);
+
+    // Merge commits are never folded
+    if (!match || commit.parents.length !== 1) {
+      result.push(commit);
+      continue;
+    }
+
+    // "fixup! fixup! Foo" targets "Foo"
+    const targetSubject = match[2].replace(/^((fixup|squash|amend)! )+/, "");
+    const targetIndex = result.findLastIndex((candidate) => {
+      const candidateSubject = candidate.message.split("\n")[0];
+      const candidateHash = candidate.content.split(":")[1];
+      return candidateSubject === targetSubject ||
+        (/^[a-f0-9]{7,40}$/.test(targetSubject) &&
+          (candidateHash.startsWith(targetSubject) ||
+            targetSubject.startsWith(candidateHash)));
+    });
+
+    if (targetIndex === -1) {
+      result.push(commit);
+      continue;
+    }
+
+    const target = result[targetIndex];
+    target.squash = [...(target.squash ?? []), commit.content.split(":")[1]];
+
+    // "squash!" keeps the body of its message, "amend!" replaces the
+    // target's message with it, and "fixup!" discards it
+    const body = bodyLines.join("\n").trim();
+    if (match[1] === "squash" && body) {
+      target.message = `${target.message}\n\n${body}`;
+    } else if (match[1] === "amend" && body) {
+      target.message = body;
+    }
+    for (const coauthor of commit.coauthors ?? []) {
+      if (!target.coauthors?.includes(coauthor)) {
+        target.coauthors = [...(target.coauthors ?? []), coauthor];
+      }
+    }
+    // A branch ending at a folded commit ends at its target instead
+    if (commit.branches) {
+      target.branches = [...(target.branches ?? []), ...commit.branches];
+    }
+
+    if (targetIndex !== result.length - 1) {
+      firstReordered = Math.min(firstReordered, targetIndex);
+    }
+  }
+
+  // Moving a commit changes what follows it, so replay those as diffs
+  for (let i = firstReordered; i < result.length; i++) {
+    result[i].content = result[i].content.replace(/^commit:/, "diff:");
+  }
+
+  return result;
 }
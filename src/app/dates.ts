@@ -0,0 +1,136 @@
+/**
+ * Resolve date expressions in a rescribe plan
+ *
+ * Besides literal dates, the YAML accepts:
+ * - "now"
+ * - "same-as-author" (committer only)
+ * - "+15m", "-2h", "+1d12h": relative to the previous entry's date
+ * plus an optional timezone, which keeps the instant but changes the offset
+ */
+
+import {
+  formatIsoDate,
+  type GitDate,
+  now,
+  parseDuration,
+  parseIsoDate,
+  toTimeZone,
+} from "../lib/date.ts";
+import { parseGitDate } from "../lib/git.ts";
+import type { Identity, RescribeCommit } from "./types.ts";
+import { type PlanIssue, PlanValidationError } from "./validation.ts";
+
+/**
+ * Resolve every date in the plan to a literal ISO 8601 date
+ * Reports all dates git can't parse at once, before anything runs
+ */
+export async function resolveDates(
+  commits: RescribeCommit[],
+): Promise<RescribeCommit[]> {
+  const issues: PlanIssue[] = [];
+  const resolved: RescribeCommit[] = [];
+  let previousAuthor: GitDate | null = null;
+  let previousCommitter: GitDate | null = null;
+
+  for (let i = 0; i < commits.length; i++) {
+    const commit = commits[i];
+
+    const author: GitDate | null = await resolveDate(commit.author, {
+      role: "author",
+      previous: previousAuthor,
+      author: null,
+    }).catch((error: Error) => {
+      issues.push({
+        path: ["commits", i, "author", "date"],
+        message: error.message,
+      });
+      return null;
+    });
+    const committer: GitDate | null = await resolveDate(commit.committer, {
+      role: "committer",
+      previous: previousCommitter,
+      author,
+    }).catch((error: Error) => {
+      issues.push({
+        path: ["commits", i, "committer", "date"],
+        message: error.message,
+      });
+      return null;
+    });
+
+    // Keep going after an error so every bad date is reported
+    previousAuthor = author ?? previousAuthor;
+    previousCommitter = committer ?? previousCommitter;
+
+    if (author && committer) {
+      resolved.push({
+        ...commit,
+        author: withDate(commit.author, author),
+        committer: withDate(commit.committer, committer),
+      });
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new PlanValidationError(issues);
+  }
+
+  return resolved;
+}
+
+/**
+ * Resolve a single date expression
+ */
+async function resolveDate(
+  identity: Identity,
+  context: {
+    role: "author" | "committer";
+    previous: GitDate | null;
+    author: GitDate | null;
+  },
+): Promise<GitDate> {
+  const { date, timezone } = identity;
+  let resolved: GitDate | null;
+
+  if (date === "now") {
+    resolved = now();
+  } else if (date === "same-as-author") {
+    if (context.role === "author") {
+      throw new Error(`"same-as-author" only applies to committer dates`);
+    }
+    if (!context.author) {
+      throw new Error(`the author date is invalid`);
+    }
+    resolved = context.author;
+  } else if (parseDuration(date) !== null) {
+    if (!context.previous) {
+      throw new Error(`"${date}" needs a previous entry to be relative to`);
+    }
+    resolved = {
+      timestamp: context.previous.timestamp + parseDuration(date)!,
+      offset: context.previous.offset,
+    };
+  } else {
+    resolved = parseIsoDate(date) ?? await parseGitDate(date);
+    if (!resolved) {
+      throw new Error(`"${date}" is not a date git can parse`);
+    }
+  }
+
+  if (timezone) {
+    try {
+      resolved = toTimeZone(resolved, timezone);
+    } catch {
+      throw new Error(`unknown timezone "${timezone}"`);
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Replace an identity's date expression with a literal date
+ */
+function withDate(identity: Identity, date: GitDate): Identity {
+  return { identity: identity.identity, date: formatIsoDate(date) };
+}
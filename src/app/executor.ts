@@ -2,80 +2,454 @@
  * Execute a rescribe rebase plan
  */
 
-import type { RebasePlan } from "./planner.ts";
-import { createCommit, updateCurrentBranch } from "../lib/git.ts";
+import {
+  type CommitPlan,
+  NOTES_REWRITE_COMMAND,
+  pendingParentIndex,
+  type RebasePlan,
+} from "./planner.ts";
+import type { JournalEntry } from "./state.ts";
+import type { Log } from "./types.ts";
+import {
+  type BackupRef,
+  getKeepBackups,
+  pruneBackups,
+  saveBackup,
+} from "./backup.ts";
+import { runPostRewriteHook } from "./hooks.ts";
+import {
+  decodeCommitText,
+  encodeCommitText,
+  formatPersonIso,
+  type RawCommit,
+} from "../lib/commit-object.ts";
+import {
+  copyNotesForRewrite,
+  countQueuedObjects,
+  createCommit,
+  flushObjects,
+  getCurrentRef,
+  getGitPath,
+  getRefHash,
+  parseIdentity,
+  queueCommit,
+  resolveCommitHash,
+  retargetTag,
+  updateCurrentBranch,
+  updateRef,
+} from "../lib/git.ts";
+import { createProgress } from "../lib/progress.ts";
+
+// Commits to write per pack; also how often the journal is saved
+const WRITE_BATCH_SIZE = 1000;
 
 /**
  * Execute a rebase plan
+ * Entries already in the journal (from a run that failed partway) are not
+ * applied again; onJournal is called with newly applied entries once their
+ * commits are written
  */
 export async function executeRescribe(
   plan: RebasePlan,
-  options: { updateHead?: boolean } = {},
+  options: {
+    updateHead?: boolean;
+    journal?: JournalEntry[];
+    onJournal?: (entries: JournalEntry[]) => Promise<void>;
+    log?: Log;
+    originals?: string[]; // Every commit in the original range
+  } = {},
 ): Promise<string | null> {
-  const { updateHead = true } = options;
+  const {
+    updateHead = true,
+    journal = [],
+    onJournal,
+    log = console.log,
+    originals = [],
+  } = options;
+
+  // Read before anything is written, so a bad setting stops the run early
+  const keepBackups = await getKeepBackups();
 
-  console.log(
+  log(
     `Processing ${plan.commits.length} commit${
       plan.commits.length === 1 ? "" : "s"
     }...`,
   );
 
-  // Track mapping of original hash → new hash for resolving "pending" references
+  // Track mapping of original hash → new hash for moving refs
   const rewrittenMap = new Map<string, string>();
-  let finalCommit: string | null = null;
+  // New hash of each entry, for resolving "pending:<index>" parents
+  const newHashes: string[] = [];
 
-  for (let i = 0; i < plan.commits.length; i++) {
-    const commitPlan = plan.commits[i];
-    console.log(`\n[${i + 1}/${plan.commits.length}] Processing commit...`);
+  // New commits are written in batches, and only journaled once written
+  const unjournaled: JournalEntry[] = [];
+  const checkpoint = async () => {
+    await flushObjects();
+    if (unjournaled.length > 0) {
+      await onJournal?.(unjournaled.splice(0));
+    }
+  };
 
-    // Resolve parent placeholders for display and execution
-    const resolvedParents = commitPlan.parents.map((parent) => {
-      if (parent === "pending") {
-        return finalCommit!;
+  const progress = createProgress("Rewriting commits", plan.commits.length);
+  try {
+    for (let i = 0; i < plan.commits.length; i++) {
+      const commitPlan = plan.commits[i];
+      const fingerprint = fingerprintCommitPlan(commitPlan);
+
+      // Already applied by an earlier run
+      if (i < journal.length) {
+        if (journal[i].fingerprint !== fingerprint) {
+          throw new Error(
+            `Entry #${i + 1} was already applied, but has changed since. ` +
+              "Only entries that haven't been applied yet can be edited. " +
+              "Undo the edit, or use --abort to start over.",
+          );
+        }
+        if (i === journal.length - 1) {
+          log(
+            `Resuming after ${journal.length} applied commit${
+              journal.length === 1 ? "" : "s"
+            }...`,
+          );
+        }
+        trackRewritten(rewrittenMap, commitPlan, journal[i].newHash);
+        newHashes.push(await resolveCommit(journal[i].newHash));
+        progress.tick();
+        continue;
       }
-      return parent;
-    });
-
-    console.log(`  Tree: ${commitPlan.tree}`);
-    console.log(
-      `  Parents: ${
-        resolvedParents.length === 0
-          ? "(root commit)"
-          : resolvedParents.join(", ")
-      }`,
-    );
 
-    let newHash: string;
-
-    if (commitPlan.action === "reuse") {
-      // Reuse the original commit
-      newHash = commitPlan.originalHash!;
-      console.log(`  Reused: ${newHash} (unchanged)`);
-    } else {
-      // Create commit with custom metadata
-      newHash = await createCommit({
-        tree: commitPlan.tree,
-        parents: resolvedParents,
-        author: commitPlan.commit.author,
-        committer: commitPlan.commit.committer,
-        message: commitPlan.commit.message,
-      });
-      console.log(`  Created: ${newHash}`);
-    }
+      // Resolve parent placeholders (and short hashes) for execution
+      // New commits may not be written yet, but their hashes are already full
+      const resolvedParents = await Promise.all(
+        commitPlan.parents.map((parent) => {
+          const index = pendingParentIndex(parent);
+          return index === null ? resolveCommit(parent) : newHashes[index];
+        }),
+      );
+
+      let newHash: string;
+
+      if (commitPlan.action === "reuse") {
+        // Reuse the original commit
+        newHash = await resolveCommit(commitPlan.originalHash!);
+      } else if (plan.sign) {
+        // Signing needs git to create the commit, so only the metadata is
+        // kept; its parents have to be written first
+        await flushObjects();
+        newHash = await createCommit({
+          tree: commitPlan.tree,
+          parents: resolvedParents,
+          author: commitPlan.commit.author,
+          committer: commitPlan.commit.committer,
+          message: commitPlan.message,
+          sign: true,
+        });
+      } else {
+        // Create commit with custom metadata, keeping what wasn't edited
+        newHash = await queueCommit(
+          buildCommitObject(commitPlan, resolvedParents),
+        );
+      }
 
-    // Track the new commit
-    if (commitPlan.originalHash) {
-      rewrittenMap.set(commitPlan.originalHash, newHash);
+      // Track the new commit
+      trackRewritten(rewrittenMap, commitPlan, newHash);
+      newHashes.push(newHash);
+
+      unjournaled.push({
+        index: i,
+        originalHash: commitPlan.originalHash,
+        newHash,
+        fingerprint,
+      });
+      if (countQueuedObjects() >= WRITE_BATCH_SIZE) {
+        await checkpoint();
+      }
+      progress.tick();
     }
-    finalCommit = newHash;
+    await checkpoint();
+  } catch (error) {
+    // Keep what was done so far, so --continue can pick up from there
+    await checkpoint().catch(() => {});
+    throw error;
+  } finally {
+    progress.done();
   }
 
+  const created =
+    plan.commits.filter((commitPlan) => commitPlan.action === "create").length;
+  log(
+    `Created ${created} commit${created === 1 ? "" : "s"}, reused ${
+      plan.commits.length - created
+    }`,
+  );
+
+  // The current branch ends at the entry listing it, or the last one
+  const finalCommit = newHashes[plan.head] ?? null;
+
   // Optionally update current branch to point to final commit
   if (finalCommit && updateHead) {
-    console.log(`\nUpdating HEAD to ${finalCommit}...`);
-    await updateCurrentBranch(finalCommit);
-    console.log("✓ Rebase complete!");
+    const message = `rescribe: rewrite ${created} commit${
+      created === 1 ? "" : "s"
+    }`;
+
+    // Reused commits keep their hash, so those refs are already right
+    const refUpdates = plan.refs.filter((refUpdate) =>
+      !refUpdate.target.startsWith(rewrittenMap.get(refUpdate.originalHash)!)
+    );
+    const branchUpdates = plan.branches.filter((branch) =>
+      newHashes[branch.index] !== branch.target
+    );
+
+    // Every original commit with its new hash, reused ones included
+    const commitMap: [string, string][] = [];
+    for (const [originalHash, newHash] of rewrittenMap) {
+      commitMap.push([await resolveCommit(originalHash), newHash]);
+    }
+    const rewritten = commitMap.filter(([from, to]) => from !== to);
+    // Dropped commits map to the all-zero id, like filter-repo's commit-map
+    // (they have no new commit, so notes and post-rewrite never see them)
+    const kept = new Set(commitMap.map(([from]) => from));
+    for (const hash of originals) {
+      if (!kept.has(hash)) {
+        commitMap.push([hash, "0".repeat(hash.length)]);
+      }
+    }
+
+    // Everything that may move, with its value now
+    const branchRef = await getCurrentRef();
+    const branchHead = (await getRefHash(branchRef))!;
+    const notesRefs = [...new Set(plan.notes.map((note) => note.ref))];
+    const candidates = [
+      { ref: branchRef, value: branchHead },
+      ...branchUpdates.map((branch) => ({
+        ref: branch.ref,
+        value: branch.target,
+      })),
+      ...refUpdates.map((refUpdate) => ({
+        ref: refUpdate.ref,
+        value: refUpdate.tagObject ?? refUpdate.target,
+      })),
+      ...await Promise.all(notesRefs.map(async (ref) => ({
+        ref,
+        value: (await getRefHash(ref))!,
+      }))),
+    ];
+
+    let backupId: string | null = null;
+    try {
+      log(`\nUpdating HEAD to ${finalCommit}...`);
+      await updateCurrentBranch(finalCommit, message, branchHead);
+
+      for (const branch of branchUpdates) {
+        await updateRef(branch.ref, newHashes[branch.index], {
+          oldValue: branch.target,
+          message,
+        });
+        log(`Updated ${branch.ref}`);
+      }
+
+      for (const refUpdate of refUpdates) {
+        const newHash = rewrittenMap.get(refUpdate.originalHash)!;
+
+        if (refUpdate.tagObject) {
+          const newTag = await retargetTag(refUpdate.tagObject, newHash);
+          await updateRef(refUpdate.ref, newTag, {
+            oldValue: refUpdate.tagObject,
+            message,
+          });
+        } else {
+          await updateRef(refUpdate.ref, newHash, {
+            oldValue: refUpdate.target,
+            message,
+          });
+        }
+        log(`Updated ${refUpdate.ref}`);
+      }
+
+      if (plan.notes.length > 0) {
+        // git skips commits without notes, and merges the notes of squashed
+        // commits per notes.rewriteMode
+        await copyNotesForRewrite(NOTES_REWRITE_COMMAND, rewritten);
+        log(
+          `Copied ${plan.notes.length} note${
+            plan.notes.length === 1 ? "" : "s"
+          } to rewritten commits`,
+        );
+      }
+    } finally {
+      // Back up only the refs that really moved, so --undo can also put
+      // back what a failure partway left behind
+      backupId = await backUpMovedRefs(candidates, keepBackups);
+    }
+
+    if (backupId) {
+      log(`Saved backup ${backupId} (undo with: git-rescribe --undo)`);
+    }
+    log(`Wrote commit map to ${await writeCommitMap(commitMap)}`);
+
+    await runPostRewriteHook(rewritten);
+
+    log("✓ Rebase complete!");
   }
 
   return finalCommit;
 }
+
+/**
+ * Save a backup of the refs that no longer have their old value, and prune
+ * old backups
+ * Returns the backup's id, or null when nothing moved or backups are off
+ */
+async function backUpMovedRefs(
+  candidates: { ref: string; value: string }[],
+  keep: number,
+): Promise<string | null> {
+  const moved: BackupRef[] = [];
+  for (const { ref, value } of candidates) {
+    const now = await getRefHash(ref);
+    if (now !== null && now !== value) {
+      moved.push({ ref, value, rewritten: now });
+    }
+  }
+
+  if (moved.length === 0) {
+    return null;
+  }
+  if (keep === 0) {
+    await pruneBackups(0);
+    return null;
+  }
+  const id = await saveBackup(moved);
+  await pruneBackups(keep);
+  return id;
+}
+
+/**
+ * Write the old → new hash of every commit in the run to a file, in the
+ * format git filter-repo uses for its commit-map (dropped commits map to
+ * the all-zero id)
+ * Returns the file's path
+ */
+async function writeCommitMap(commitMap: [string, string][]): Promise<string> {
+  const path = await getGitPath("rescribe/commit-map");
+  await Deno.mkdir(path.substring(0, path.lastIndexOf("/")), {
+    recursive: true,
+  });
+
+  const width = commitMap[0]?.[0].length ?? 40;
+  const lines = [
+    `${"old".padEnd(width)} new`,
+    ...commitMap.map(([from, to]) => `${from} ${to}`),
+  ];
+  await Deno.writeTextFile(path, `${lines.join("\n")}\n`);
+  return path;
+}
+
+/**
+ * Record the new hash for every original commit a plan entry replaces
+ */
+function trackRewritten(
+  rewrittenMap: Map<string, string>,
+  commitPlan: CommitPlan,
+  newHash: string,
+): void {
+  if (commitPlan.originalHash) {
+    rewrittenMap.set(commitPlan.originalHash, newHash);
+  }
+  for (const hash of commitPlan.squashed) {
+    rewrittenMap.set(hash, newHash);
+  }
+}
+
+/**
+ * Build the object for a new commit
+ * Whatever wasn't edited (identity lines, message bytes and encoding, extra
+ * headers like mergetag) is copied exactly from the original commit
+ */
+function buildCommitObject(
+  commitPlan: CommitPlan,
+  parents: string[],
+): RawCommit {
+  const { commit, original, changes } = commitPlan;
+  const unchanged = (...fields: string[]) =>
+    original !== null && fields.every((field) => !changes.includes(field));
+
+  const person = (identity: { identity: string; date: string }) => {
+    const { name, email } = parseIdentity(identity.identity);
+    return formatPersonIso(name, email, identity.date);
+  };
+  const newAuthor = unchanged("author identity", "author date")
+    ? null
+    : person(commit.author);
+  const newCommitter = unchanged("committer identity", "committer date")
+    ? null
+    : person(commit.committer);
+
+  // New identities are UTF-8, so an old encoding only fits if they're ASCII
+  const keepMessage = unchanged("message", "co-authors") &&
+    (original!.encoding === null ||
+      !/[\x80-\xff]/.test((newAuthor ?? "") + (newCommitter ?? "")));
+
+  // Once the old encoding is dropped, kept identities become UTF-8 as well
+  const keepIdentity = (line: string) =>
+    original!.encoding === null || keepMessage
+      ? line
+      : encodeCommitText(decodeCommitText(line, original!.encoding));
+  const author = newAuthor ?? keepIdentity(original!.author);
+  const committer = newCommitter ?? keepIdentity(original!.committer);
+
+  // Signatures don't survive a rewrite, and a mergetag only belongs with the
+  // parent it tags
+  const headers = (original?.headers ?? []).filter(({ key, value }) => {
+    if (key === "gpgsig" || key === "gpgsig-sha256") {
+      return false;
+    }
+    if (key === "mergetag") {
+      const tagged = value.match(/^object ([0-9a-f]+)/)?.[1];
+      return tagged !== undefined && parents.includes(tagged);
+    }
+    return true;
+  });
+
+  return {
+    tree: commitPlan.tree,
+    parents,
+    author,
+    committer,
+    encoding: keepMessage ? original!.encoding : null,
+    headers,
+    message: keepMessage
+      ? original!.message
+      : encodeCommitText(`${commitPlan.message}\n`),
+  };
+}
+
+/**
+ * Resolve a commit hash (possibly abbreviated) to its full hash
+ */
+async function resolveCommit(hash: string): Promise<string> {
+  const full = await resolveCommitHash(hash);
+  if (!full) {
+    throw new Error(`Unknown commit ${hash}`);
+  }
+  return full;
+}
+
+/**
+ * Summarize everything a commit is built from, to detect edits on resume
+ * Dates are taken as written, since expressions like "now" resolve to a
+ * different time on every run
+ */
+function fingerprintCommitPlan(commitPlan: CommitPlan): string {
+  const { commit, written } = commitPlan;
+  return JSON.stringify({
+    action: commitPlan.action,
+    originalHash: commitPlan.originalHash,
+    squashed: commitPlan.squashed,
+    tree: commitPlan.tree,
+    parents: commitPlan.parents,
+    author: { ...commit.author, date: written.author.date },
+    committer: { ...commit.committer, date: written.committer.date },
+    message: commitPlan.message,
+  });
+}
@@ -0,0 +1,96 @@
+/**
+ * Git hooks around a rescribe: pre-rescribe before anything is generated,
+ * commit-msg for edited messages, and post-rewrite once commits are rewritten
+ */
+
+import { getGitPath, runHook } from "../lib/git.ts";
+import type { RebasePlan } from "./planner.ts";
+import { locatePlanIssues, planFormatFromPath } from "./plan-formats.ts";
+import { type PlanIssue, PlanValidationError } from "./validation.ts";
+
+/**
+ * Run the pre-rescribe hook with the base, as given on the command line
+ * A hook that exits non-zero stops the rescribe
+ */
+export async function runPreRescribeHook(base: string): Promise<void> {
+  const code = await runHook("pre-rescribe", [base]);
+  if (code !== null && code !== 0) {
+    throw new Error(`The pre-rescribe hook refused to rescribe (exit ${code})`);
+  }
+}
+
+/**
+ * Run the commit-msg hook on every message the plan changes
+ * Hooks may edit the message, as with git commit; rejected messages are
+ * reported as problems in the YAML file
+ */
+export async function runCommitMsgHooks(
+  plan: RebasePlan,
+  planPath: string,
+): Promise<void> {
+  const messageFile = await getGitPath("COMMIT_EDITMSG");
+  const issues: PlanIssue[] = [];
+
+  for (let i = 0; i < plan.commits.length; i++) {
+    const commitPlan = plan.commits[i];
+    const edited = commitPlan.changes.some((change) =>
+      change === "message" || change === "co-authors" || change === "new commit"
+    );
+    if (commitPlan.action !== "create" || !edited) {
+      continue;
+    }
+
+    await Deno.writeTextFile(messageFile, `${commitPlan.message}\n`);
+    const code = await runHook("commit-msg", [messageFile]);
+    if (code === null) {
+      return;
+    }
+    if (code !== 0) {
+      issues.push({
+        path: ["commits", i, "message"],
+        message: `Rejected by the commit-msg hook (exit ${code})`,
+      });
+      continue;
+    }
+
+    const message = (await Deno.readTextFile(messageFile)).replace(/\n$/, "");
+    if (message !== commitPlan.message) {
+      commitPlan.message = message;
+      if (!commitPlan.changes.includes("message")) {
+        commitPlan.changes.push("message");
+      }
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new PlanValidationError(
+      locatePlanIssues(
+        await Deno.readTextFile(planPath),
+        planFormatFromPath(planPath) ?? "yaml",
+        issues,
+      ),
+      "Messages rejected by the commit-msg hook",
+    );
+  }
+}
+
+/**
+ * Run the post-rewrite hook the way git rebase does: with "rebase" as its
+ * argument and "<old> <new>" lines for every rewritten commit on stdin
+ * Like git, a failing hook doesn't undo anything
+ */
+export async function runPostRewriteHook(
+  rewritten: [string, string][],
+): Promise<void> {
+  if (rewritten.length === 0) {
+    return;
+  }
+  const code = await runHook(
+    "post-rewrite",
+    ["rebase"],
+    rewritten.map(([from, to]) => `${from} ${to}\n`).join(""),
+  );
+  if (code !== null && code !== 0) {
+    console.error(`Warning: the post-rewrite hook failed (exit ${code})`);
+  }
+}
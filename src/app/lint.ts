@@ -0,0 +1,310 @@
+/**
+ * Lint rules for plans that are valid but almost certainly wrong
+ * Each rule is an error (the plan is rejected, like a schema problem), a
+ * warning or off, set with rescribe.lint.<rule> in git config
+ * Only entries the plan creates are checked; reused commits stay as they are
+ */
+
+import {
+  checkMailmap,
+  getCommitInfo,
+  getConfig,
+  getTreeHash,
+  readMailmap,
+} from "../lib/git.ts";
+import { parseIsoDate } from "../lib/date.ts";
+import { extractTrailers } from "../lib/trailers.ts";
+import { pendingParentIndex, type RebasePlan } from "./planner.ts";
+import { locatePlanIssues, planFormatFromPath } from "./plan-formats.ts";
+import {
+  formatIssue,
+  type PlanIssue,
+  PlanValidationError,
+} from "./validation.ts";
+
+export type LintSeverity = "error" | "warn" | "off";
+
+// Rules and how seriously they're taken unless configured
+const RULES = {
+  "author-date-order": "warn", // Author date later than the committer date
+  "date-order": "warn", // Dates going backwards along the first parent
+  "empty-message": "error",
+  "mailmap-unknown": "warn", // Identities whose email the mailmap never mentions
+  "mailmap-canonical": "warn", // Identities the mailmap maps to another identity
+  "duplicate-coauthors": "warn",
+  "conventional-commits": "off",
+  "subject-length": "warn",
+  "dropped-commits": "warn", // commit: entries that no longer follow their parent
+} satisfies Record<string, LintSeverity>;
+
+type LintRule = keyof typeof RULES;
+
+// Longest subject the subject-length rule accepts
+const MAX_SUBJECT_LENGTH = 72;
+
+// "type(scope)!: description"
+const CONVENTIONAL_SUBJECT = /^[a-z]+(\([^()]+\))?!?: \S/;
+
+/**
+ * A problem found by a rule
+ */
+interface LintIssue extends PlanIssue {
+  rule: LintRule;
+}
+
+/**
+ * Lint the entries a plan creates
+ * Warnings are printed; errors are thrown as a PlanValidationError, located
+ * in the plan file so they can be fixed in the editor
+ */
+export async function lintPlan(
+  plan: RebasePlan,
+  planPath: string,
+  options: { mailmapFile?: string } = {},
+): Promise<void> {
+  const severities = await readSeverities();
+  const enabled = (rule: LintRule) => severities[rule] !== "off";
+  const issues: LintIssue[] = [];
+
+  const identities: [number, (string | number)[], string][] = [];
+  for (let i = 0; i < plan.commits.length; i++) {
+    const commitPlan = plan.commits[i];
+    if (commitPlan.action !== "create") {
+      continue;
+    }
+    const { commit } = commitPlan;
+    const report = (
+      rule: LintRule,
+      path: (string | number)[],
+      message: string,
+    ) => {
+      if (enabled(rule)) {
+        issues.push({ rule, path: ["commits", i, ...path], message });
+      }
+    };
+
+    const authorDate = parseIsoDate(commit.author.date);
+    const committerDate = parseIsoDate(commit.committer.date);
+    if (
+      authorDate && committerDate &&
+      authorDate.timestamp > committerDate.timestamp
+    ) {
+      report(
+        "author-date-order",
+        ["author", "date"],
+        `Author date is after the committer date (${commit.committer.date})`,
+      );
+    }
+
+    if (enabled("date-order") && commitPlan.parents.length > 0) {
+      const parent = await firstParentDates(plan, commitPlan.parents[0]);
+      for (const role of ["author", "committer"] as const) {
+        const date = parseIsoDate(commit[role].date);
+        const parentDate = parseIsoDate(parent[role]);
+        if (date && parentDate && date.timestamp < parentDate.timestamp) {
+          report(
+            "date-order",
+            [role, "date"],
+            `${role === "author" ? "Author" : "Committer"} date is before ` +
+              `the first parent's (${parent[role]})`,
+          );
+        }
+      }
+    }
+
+    const { message, values: typed } = extractTrailers(
+      commit.message,
+      "Co-authored-by",
+    );
+    if (message.trim() === "") {
+      report("empty-message", ["message"], "Message is empty");
+    }
+
+    const seen = new Set<string>();
+    for (const coauthor of [...typed, ...(commit.coauthors ?? [])]) {
+      const key = coauthor.trim().toLowerCase();
+      if (seen.has(key)) {
+        report(
+          "duplicate-coauthors",
+          ["coauthors"],
+          `${coauthor.trim()} is listed as a co-author more than once`,
+        );
+      }
+      seen.add(key);
+    }
+
+    const subject = message.trimStart().split("\n")[0];
+    if (subject.length > MAX_SUBJECT_LENGTH) {
+      report(
+        "subject-length",
+        ["message"],
+        `Subject is ${subject.length} characters long ` +
+          `(at most ${MAX_SUBJECT_LENGTH})`,
+      );
+    }
+    if (subject !== "" && !CONVENTIONAL_SUBJECT.test(subject)) {
+      report(
+        "conventional-commits",
+        ["message"],
+        'Subject isn\'t a conventional commit, like "fix(parser): ..."',
+      );
+    }
+
+    if (enabled("dropped-commits") && await foldsInChanges(plan, i)) {
+      report(
+        "dropped-commits",
+        ["content"],
+        "The commits before this one changed, so their changes silently " +
+          "fold into it (use diff: to keep only its own changes)",
+      );
+    }
+
+    identities.push([i, ["author", "identity"], commit.author.identity]);
+    identities.push([i, ["committer", "identity"], commit.committer.identity]);
+    (commit.coauthors ?? []).forEach((coauthor, j) => {
+      identities.push([i, ["coauthors", j], coauthor]);
+    });
+  }
+
+  if (enabled("mailmap-unknown") && identities.length > 0) {
+    const mailmap = await readMailmap({ file: options.mailmapFile });
+    // Without any mailmap, every identity would be unknown
+    if (mailmap !== null) {
+      const known = mailmapEmails(mailmap);
+      for (const [i, path, identity] of identities) {
+        const email = identity.match(/<([^<>]*)>\s*$/)?.[1];
+        if (email !== undefined && !known.has(email.toLowerCase())) {
+          issues.push({
+            rule: "mailmap-unknown",
+            path: ["commits", i, ...path],
+            message: `${identity} isn't in the mailmap`,
+          });
+        }
+      }
+    }
+  }
+
+  if (enabled("mailmap-canonical") && identities.length > 0) {
+    const mapped = await checkMailmap(
+      identities.map(([, , identity]) => identity),
+      { file: options.mailmapFile },
+    );
+    for (const [i, path, identity] of identities) {
+      const canonical = mapped.get(identity);
+      if (canonical !== undefined && canonical !== identity) {
+        issues.push({
+          rule: "mailmap-canonical",
+          path: ["commits", i, ...path],
+          message: `${identity} isn't the mailmap's identity for this ` +
+            `person (${canonical})`,
+        });
+      }
+    }
+  }
+
+  if (issues.length === 0) {
+    return;
+  }
+
+  const located = locatePlanIssues(
+    await Deno.readTextFile(planPath),
+    planFormatFromPath(planPath) ?? "yaml",
+    issues.map(({ rule, ...issue }) => ({
+      ...issue,
+      message: `${issue.message} [${rule}]`,
+    })),
+  );
+  const errors = located.filter((_, i) =>
+    severities[issues[i].rule] === "error"
+  );
+  const warnings = located.filter((_, i) =>
+    severities[issues[i].rule] === "warn"
+  );
+
+  if (warnings.length > 0) {
+    console.error(`\nWarnings:\n${warnings.map(formatIssue).join("\n")}`);
+  }
+  if (errors.length > 0) {
+    throw new PlanValidationError(errors, "Plan has lint errors");
+  }
+}
+
+/**
+ * Read each rule's severity from rescribe.lint.<rule>
+ */
+async function readSeverities(): Promise<Record<LintRule, LintSeverity>> {
+  const severities = { ...RULES } as Record<LintRule, LintSeverity>;
+  for (const rule of Object.keys(RULES) as LintRule[]) {
+    const value = await getConfig(`rescribe.lint.${rule}`);
+    if (value === null) {
+      continue;
+    }
+    if (value !== "error" && value !== "warn" && value !== "off") {
+      throw new Error(
+        `Invalid rescribe.lint.${rule} '${value}'. Use error, warn or off`,
+      );
+    }
+    severities[rule] = value;
+  }
+  return severities;
+}
+
+/**
+ * Author and committer dates of a resolved first parent
+ */
+async function firstParentDates(
+  plan: RebasePlan,
+  parent: string,
+): Promise<{ author: string; committer: string }> {
+  const index = pendingParentIndex(parent);
+  if (index !== null) {
+    const { commit } = plan.commits[index];
+    return { author: commit.author.date, committer: commit.committer.date };
+  }
+  const info = await getCommitInfo(parent);
+  return { author: info.authorDate, committer: info.committerDate };
+}
+
+/**
+ * Whether a commit: entry takes a snapshot whose original parent had a
+ * different tree than its new parent, so that whatever was dropped or moved
+ * in between ends up in this commit
+ */
+async function foldsInChanges(
+  plan: RebasePlan,
+  index: number,
+): Promise<boolean> {
+  const { commit, original, parents } = plan.commits[index];
+  if (!commit.content.startsWith("commit:") || !original) {
+    return false;
+  }
+
+  const originalParent = original.parents[0];
+  const parent = parents[0];
+  if (originalParent === undefined || parent === undefined) {
+    return originalParent !== parent;
+  }
+
+  const pending = pendingParentIndex(parent);
+  const parentTree = pending !== null
+    ? plan.commits[pending].tree
+    : await getTreeHash(parent);
+  return parentTree !== await getTreeHash(originalParent);
+}
+
+/**
+ * Every email a mailmap mentions, proper or commit email, in lower case
+ * (git matches mailmap emails case-insensitively)
+ */
+function mailmapEmails(mailmap: string): Set<string> {
+  const emails = new Set<string>();
+  for (const line of mailmap.split("\n")) {
+    if (line.startsWith("#")) {
+      continue;
+    }
+    for (const match of line.matchAll(/<([^<>]*)>/g)) {
+      emails.add(match[1].toLowerCase());
+    }
+  }
+  return emails;
+}
@@ -0,0 +1,142 @@
+/**
+ * Plan file formats
+ * The same RebasePlan can be written as YAML, JSON, TOML or a script of
+ * git pick commands; whichever is used, it is read back into plain data and
+ * validated with RebaseSchema
+ */
+
+import { formatYaml } from "./yaml-prettier.ts";
+import { formatToml, locateTomlIssues, parseToml } from "./plan-toml.ts";
+import {
+  formatScript,
+  locateScriptIssues,
+  parseScript,
+} from "./plan-script.ts";
+import {
+  describeIssues,
+  locateIssues,
+  parseYamlDocument,
+  type PlanIssue,
+  PlanValidationError,
+} from "./validation.ts";
+import type { RebasePlan } from "./types.ts";
+
+export type PlanFormat = "yaml" | "json" | "toml" | "script";
+
+// File extensions of each format; the first is used for new files
+const EXTENSIONS: Record<PlanFormat, string[]> = {
+  yaml: [".yml", ".yaml"],
+  json: [".json"],
+  toml: [".toml"],
+  script: [".sh"],
+};
+
+export const PLAN_FORMATS = Object.keys(EXTENSIONS) as PlanFormat[];
+
+/**
+ * Check a --plan-format value
+ */
+export function parsePlanFormat(value: string): PlanFormat {
+  if (!(PLAN_FORMATS as string[]).includes(value)) {
+    throw new Error(
+      `Unknown plan format '${value}'. Use ${PLAN_FORMATS.join(", ")}`,
+    );
+  }
+  return value as PlanFormat;
+}
+
+/**
+ * Extension for a new file in a format, like ".yml"
+ */
+export function planFileExtension(format: PlanFormat): string {
+  return EXTENSIONS[format][0];
+}
+
+/**
+ * Work out a plan file's format from its extension
+ * Returns null for extensions no format uses
+ */
+export function planFormatFromPath(path: string): PlanFormat | null {
+  const extension = path.match(/\.[^./]+$/)?.[0].toLowerCase();
+  return PLAN_FORMATS.find((format) =>
+    extension !== undefined && EXTENSIONS[format].includes(extension)
+  ) ?? null;
+}
+
+/**
+ * Write a plan in a format
+ */
+export function formatPlan(data: RebasePlan, format: PlanFormat): string {
+  switch (format) {
+    case "yaml":
+      return formatYaml(data);
+    case "json":
+      return JSON.stringify(data, null, 2) + "\n";
+    case "toml":
+      return formatToml(data);
+    case "script":
+      return formatScript(data);
+  }
+}
+
+/**
+ * Read a plan written in a format, without validating it
+ * Syntax errors are thrown as a PlanValidationError with their location
+ */
+export function parsePlan(source: string, format: PlanFormat): unknown {
+  switch (format) {
+    case "yaml":
+      return parseYamlDocument(source);
+    case "json":
+      return parseJson(source);
+    case "toml":
+      return parseToml(source);
+    case "script":
+      return parseScript(source);
+  }
+}
+
+/**
+ * Fill in line numbers and commit subjects for issues, as far as the format
+ * allows
+ */
+export function locatePlanIssues(
+  source: string,
+  format: PlanFormat,
+  issues: PlanIssue[],
+): PlanIssue[] {
+  if (format === "yaml" || format === "json") {
+    // JSON is YAML too, so the YAML parser can find the lines
+    return locateIssues(source, issues);
+  }
+
+  // Syntax errors are located already, and the file can't be read again
+  try {
+    return format === "toml"
+      ? describeIssues(parseToml(source), locateTomlIssues(source, issues))
+      : describeIssues(parseScript(source), locateScriptIssues(source, issues));
+  } catch {
+    return issues;
+  }
+}
+
+/**
+ * Whether problems can be listed as comments at the top of a file
+ */
+export function planFormatHasComments(format: PlanFormat): boolean {
+  return format !== "json";
+}
+
+/**
+ * Parse JSON, reporting syntax errors as plan issues
+ */
+function parseJson(source: string): unknown {
+  try {
+    return JSON.parse(source);
+  } catch (error) {
+    throw new PlanValidationError([{
+      path: [],
+      message: error instanceof Error ? error.message : String(error),
+    }]);
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Machine-readable output of a rebase plan
+ * For scripts that want to check a rewrite before it is applied
+ */
+
+import { formatParent, type RebasePlan } from "./planner.ts";
+
+/**
+ * Format a plan as JSON
+ * Parents that will only exist once the plan runs are shown as "new #n",
+ * where n is the entry number (1-based, as listed in "commits")
+ */
+export function formatPlanJson(plan: RebasePlan): string {
+  const output = {
+    sign: plan.sign,
+    commits: plan.commits.map((commitPlan, i) => ({
+      entry: i + 1,
+      originalHash: commitPlan.originalHash,
+      action: commitPlan.action,
+      changes: commitPlan.changes,
+      squashed: commitPlan.squashed,
+      lostSignatures: commitPlan.lostSignatures,
+      tree: commitPlan.tree,
+      parents: commitPlan.parents.map(formatParent),
+      author: {
+        identity: commitPlan.commit.author.identity,
+        date: commitPlan.commit.author.date,
+      },
+      committer: {
+        identity: commitPlan.commit.committer.identity,
+        date: commitPlan.commit.committer.date,
+      },
+      message: commitPlan.message,
+    })),
+    head: plan.head + 1,
+    branches: plan.branches.map((branch) => ({
+      ref: branch.ref,
+      entry: branch.index + 1,
+      target: branch.target,
+    })),
+    refs: plan.refs.map((refUpdate) => ({
+      ref: refUpdate.ref,
+      originalHash: refUpdate.originalHash,
+      target: refUpdate.target,
+      annotated: refUpdate.tagObject !== null,
+    })),
+    notes: plan.notes,
+  };
+
+  return JSON.stringify(output, null, 2);
+}
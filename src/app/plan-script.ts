@@ -0,0 +1,404 @@
+/**
+ * Shell script plan files: one "git pick" command per commit
+ *
+ *   git identity me 'Name <email@example.com>'
+ *
+ *   git pick commit:04fcafc \
+ *     --author @me --author-date '2025-11-28T17:49:00-05:00' \
+ *     --committer @me --committer-date same-as-author \
+ *     --parent previous \
+ *     --message <<'EOF'
+ *   Add initial Chrome extension structure
+ *   EOF
+ *
+ * The script is read, never run: only these commands are understood, with
+ * sh quoting, line continuations, comments and here-documents (which are
+ * always taken literally)
+ */
+
+import type { Identity, RebasePlan, RescribeCommit } from "./types.ts";
+import { type PlanIssue, PlanValidationError } from "./validation.ts";
+
+// Options of "git pick" that are written to an Identity
+const IDENTITY_OPTIONS: Record<
+  string,
+  ["author" | "committer", keyof Identity]
+> = {
+  "--author": ["author", "identity"],
+  "--author-date": ["author", "date"],
+  "--author-timezone": ["author", "timezone"],
+  "--committer": ["committer", "identity"],
+  "--committer-date": ["committer", "date"],
+  "--committer-timezone": ["committer", "timezone"],
+};
+
+// Options of "git pick" that can be given more than once
+const LIST_OPTIONS: Record<
+  string,
+  "branches" | "coauthors" | "parents" | "paths" | "squash"
+> = {
+  "--branch": "branches",
+  "--coauthor": "coauthors",
+  "--parent": "parents",
+  "--path": "paths",
+  "--squash": "squash",
+};
+
+/**
+ * A command in the script, split into words
+ */
+interface ScriptCommand {
+  words: string[];
+  line: number; // 1-based line the command starts on
+}
+
+/**
+ * Convert a RebasePlan to a script of git pick commands
+ */
+export function formatScript(data: RebasePlan): string {
+  const lines: string[] = [];
+
+  const aliases = Object.entries(data.identities ?? {});
+  for (const [alias, identity] of aliases) {
+    lines.push(`git identity ${quote(alias)} ${quote(identity)}`);
+  }
+
+  for (const commit of data.commits) {
+    if (lines.length > 0) {
+      lines.push("");
+    }
+
+    const options: string[] = [];
+    for (const role of ["author", "committer"] as const) {
+      options.push(
+        `--${role} ${quote(commit[role].identity)} ` +
+          `--${role}-date ${quote(commit[role].date)}`,
+      );
+      if (commit[role].timezone) {
+        options.push(`--${role}-timezone ${quote(commit[role].timezone!)}`);
+      }
+    }
+    for (const branch of commit.branches ?? []) {
+      options.push(`--branch ${quote(branch)}`);
+    }
+    for (const coauthor of commit.coauthors ?? []) {
+      options.push(`--coauthor ${quote(coauthor)}`);
+    }
+    options.push(
+      commit.parents.length > 0
+        ? commit.parents.map((parent) => `--parent ${quote(parent)}`).join(" ")
+        : "--root",
+    );
+    for (const path of commit.paths ?? []) {
+      options.push(`--path ${quote(path)}`);
+    }
+    for (const hash of commit.squash ?? []) {
+      options.push(`--squash ${quote(hash)}`);
+    }
+
+    // The here-document delimiter can't appear as a line of the message
+    const messageLines = commit.message.split("\n");
+    let delimiter = "EOF";
+    for (let n = 1; messageLines.includes(delimiter); n++) {
+      delimiter = `EOF${n}`;
+    }
+    options.push(`--message <<'${delimiter}'`);
+
+    lines.push(`git pick ${quote(commit.content)} \\`);
+    lines.push(
+      ...options.map((option, i) =>
+        `  ${option}${i < options.length - 1 ? " \\" : ""}`
+      ),
+    );
+    lines.push(...messageLines, delimiter);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Parse a script plan into plain data, for RebaseSchema to validate
+ */
+export function parseScript(source: string): unknown {
+  const identities: Record<string, string> = {};
+  const commits: Partial<RescribeCommit>[] = [];
+  const issues: PlanIssue[] = [];
+
+  for (const { words, line } of splitCommands(source)) {
+    const issue = (message: string) =>
+      issues.push({ path: [], message, line, column: 1 });
+
+    if (
+      words[0] !== "git" || (words[1] !== "pick" && words[1] !== "identity")
+    ) {
+      issue(
+        `Unknown command "${words.join(" ")}". Use git pick or git identity`,
+      );
+      continue;
+    }
+
+    if (words[1] === "identity") {
+      if (words.length !== 4) {
+        issue('Use git identity <alias> "Name <email>"');
+        continue;
+      }
+      identities[words[2]] = words[3];
+      continue;
+    }
+
+    const commit = parsePick(words.slice(2), issue);
+    if (commit) {
+      commits.push(commit);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new PlanValidationError(issues);
+  }
+
+  return Object.keys(identities).length > 0
+    ? { identities, commits }
+    : { commits };
+}
+
+/**
+ * Point issues about a commit at the line of its git pick command
+ */
+export function locateScriptIssues(
+  source: string,
+  issues: PlanIssue[],
+): PlanIssue[] {
+  const picks = splitCommands(source)
+    .filter(({ words }) => words[0] === "git" && words[1] === "pick")
+    .map(({ line }) => line);
+
+  return issues.map((issue) => {
+    const [section, index] = issue.path;
+    if (
+      issue.line !== undefined || section !== "commits" ||
+      typeof index !== "number" || picks[index] === undefined
+    ) {
+      return issue;
+    }
+    return { ...issue, line: picks[index], column: 1 };
+  });
+}
+
+/**
+ * Turn the arguments of a git pick command into a commit
+ * Returns null (after reporting the problem) if they can't be read
+ */
+function parsePick(
+  args: string[],
+  issue: (message: string) => void,
+): Partial<RescribeCommit> | null {
+  const [content, ...options] = args;
+  if (content === undefined || content.startsWith("-")) {
+    issue("git pick needs content first, like commit:abc1234");
+    return null;
+  }
+
+  const commit: Partial<RescribeCommit> = { content };
+  const identities: Partial<Record<"author" | "committer", Partial<Identity>>> =
+    {};
+
+  for (let i = 0; i < options.length; i++) {
+    const [name, inlineValue] = options[i].split(/=(.*)/s);
+    if (name === "--root") {
+      commit.parents = [];
+      continue;
+    }
+
+    const value = inlineValue ?? options[++i];
+    if (value === undefined) {
+      issue(`${name} needs a value`);
+      return null;
+    }
+
+    if (Object.hasOwn(IDENTITY_OPTIONS, name)) {
+      const [role, field] = IDENTITY_OPTIONS[name];
+      identities[role] = { ...identities[role], [field]: value };
+    } else if (Object.hasOwn(LIST_OPTIONS, name)) {
+      const key = LIST_OPTIONS[name];
+      commit[key] = [...(commit[key] ?? []), value];
+    } else if (name === "--message") {
+      commit.message = value;
+    } else {
+      issue(`Unknown option ${name} for git pick`);
+      return null;
+    }
+  }
+
+  // Missing fields are left out, so the schema reports them
+  return {
+    ...(identities.author ? { author: identities.author as Identity } : {}),
+    ...(identities.committer
+      ? { committer: identities.committer as Identity }
+      : {}),
+    ...commit,
+  };
+}
+
+/**
+ * Split a script into commands and their words, following sh quoting
+ * Here-documents become the word where their "<<" was, without the final
+ * newline
+ */
+function splitCommands(source: string): ScriptCommand[] {
+  const commands: ScriptCommand[] = [];
+  let words: string[] = [];
+  let commandLine = 1;
+  let line = 1;
+  let i = 0;
+
+  // Here-documents started on the current line: [word index, delimiter]
+  let heredocs: [number, string][] = [];
+
+  const fail = (message: string): never => {
+    throw new PlanValidationError([{ path: [], message, line, column: 1 }]);
+  };
+
+  const endCommand = () => {
+    // Here-document bodies start on the next line
+    for (const [index, delimiter] of heredocs) {
+      const body: string[] = [];
+      while (true) {
+        if (i >= source.length) {
+          fail(`Here-document is missing its ${delimiter} line`);
+        }
+        let end = source.indexOf("\n", i);
+        if (end === -1) {
+          end = source.length;
+        }
+        const bodyLine = source.substring(i, end);
+        i = end + 1;
+        line++;
+        if (bodyLine === delimiter) {
+          break;
+        }
+        body.push(bodyLine);
+      }
+      words[index] = body.join("\n");
+    }
+    heredocs = [];
+
+    if (words.length > 0) {
+      commands.push({ words, line: commandLine });
+    }
+    words = [];
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === "\n") {
+      i++;
+      line++;
+      endCommand();
+      continue;
+    }
+    if (char === ";") {
+      i++;
+      endCommand();
+      continue;
+    }
+    if (char === " " || char === "\t") {
+      i++;
+      continue;
+    }
+    if (char === "\\" && source[i + 1] === "\n") {
+      i += 2;
+      line++;
+      continue;
+    }
+    if (char === "#") {
+      while (i < source.length && source[i] !== "\n") {
+        i++;
+      }
+      continue;
+    }
+
+    if (words.length === 0) {
+      commandLine = line;
+    }
+
+    if (source.startsWith("<<", i)) {
+      i += 2;
+      while (source[i] === " " || source[i] === "\t") {
+        i++;
+      }
+      const delimiter = readWord();
+      if (delimiter === "") {
+        fail("<< needs a delimiter, like <<'EOF'");
+      }
+      heredocs.push([words.length, delimiter]);
+      words.push("");
+      continue;
+    }
+
+    words.push(readWord());
+  }
+  endCommand();
+
+  return commands;
+
+  // Read one word, joining quoted and unquoted parts
+  function readWord(): string {
+    let word = "";
+    while (i < source.length && !/[\s;]/.test(source[i])) {
+      const char = source[i];
+      if (char === "'") {
+        const end = source.indexOf("'", i + 1);
+        if (end === -1) {
+          fail("Unterminated ' quote");
+        }
+        word += source.substring(i + 1, end);
+        line += source.substring(i, end).split("\n").length - 1;
+        i = end + 1;
+      } else if (char === '"') {
+        i++;
+        while (source[i] !== '"') {
+          if (i >= source.length) {
+            fail('Unterminated " quote');
+          }
+          if (source[i] === "\\" && /["\\$`\n]/.test(source[i + 1])) {
+            if (source[i + 1] !== "\n") {
+              word += source[i + 1];
+            }
+            i++;
+          } else {
+            word += source[i];
+          }
+          if (source[i] === "\n") {
+            line++;
+          }
+          i++;
+        }
+        i++;
+      } else if (char === "\\" && i + 1 < source.length) {
+        if (source[i + 1] === "\n") {
+          line++;
+        } else {
+          word += source[i + 1];
+        }
+        i += 2;
+      } else if (source.startsWith("<<", i)) {
+        break;
+      } else {
+        word += char;
+        i++;
+      }
+    }
+    return word;
+  }
+}
+
+/**
+ * Quote a word for sh, leaving simple words as they are
+ */
+function quote(word: string): string {
+  if (/^[A-Za-z0-9_@%+=:,./-]+$/.test(word)) {
+    return word;
+  }
+  return `'${word.replaceAll("'", `'\\''`)}'`;
+}
@@ -0,0 +1,170 @@
+/**
+ * TOML plan files
+ * Written out directly, in the same key order as the YAML (one [[commits]]
+ * table per commit, identities as inline tables, messages as multi-line
+ * strings), and read back with smol-toml
+ */
+
+import { parse, TomlError } from "npm:smol-toml@1.3.1";
+import type { Identity, RebasePlan } from "./types.ts";
+import { type PlanIssue, PlanValidationError } from "./validation.ts";
+
+/**
+ * Convert a RebasePlan to a TOML string
+ */
+export function formatToml(data: RebasePlan): string {
+  const lines: string[] = [];
+
+  const aliases = Object.entries(data.identities ?? {});
+  if (aliases.length > 0) {
+    lines.push("[identities]");
+    for (const [alias, identity] of aliases) {
+      lines.push(`${formatKey(alias)} = ${formatString(identity)}`);
+    }
+  }
+
+  for (const commit of data.commits) {
+    if (lines.length > 0) {
+      lines.push("");
+    }
+
+    lines.push("[[commits]]");
+    lines.push(`author = ${formatIdentity(commit.author)}`);
+    if (commit.branches && commit.branches.length > 0) {
+      lines.push(`branches = ${formatArray(commit.branches)}`);
+    }
+    if (commit.coauthors && commit.coauthors.length > 0) {
+      lines.push(`coauthors = ${formatArray(commit.coauthors)}`);
+    }
+    lines.push(`committer = ${formatIdentity(commit.committer)}`);
+    lines.push(`content = ${formatString(commit.content)}`);
+    lines.push(...formatMessage(commit.message));
+    lines.push(`parents = ${formatArray(commit.parents)}`);
+    if (commit.paths && commit.paths.length > 0) {
+      lines.push(`paths = ${formatArray(commit.paths)}`);
+    }
+    if (commit.squash && commit.squash.length > 0) {
+      lines.push(`squash = ${formatArray(commit.squash)}`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Parse a TOML plan, reporting syntax errors with their location
+ * Unquoted TOML dates are turned back into ISO strings
+ */
+export function parseToml(source: string): unknown {
+  try {
+    return datesToStrings(parse(source));
+  } catch (error) {
+    if (error instanceof TomlError) {
+      throw new PlanValidationError([{
+        path: [],
+        message: error.message.split("\n")[0],
+        line: error.line,
+        column: error.column,
+      }]);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Point issues about a commit at the line of its [[commits]] header
+ */
+export function locateTomlIssues(
+  source: string,
+  issues: PlanIssue[],
+): PlanIssue[] {
+  const headers: number[] = [];
+  source.split("\n").forEach((line, index) => {
+    if (/^\s*\[\[\s*commits\s*\]\]/.test(line)) {
+      headers.push(index + 1);
+    }
+  });
+
+  return issues.map((issue) => {
+    const [section, index] = issue.path;
+    if (
+      issue.line !== undefined || section !== "commits" ||
+      typeof index !== "number" || headers[index] === undefined
+    ) {
+      return issue;
+    }
+    return { ...issue, line: headers[index], column: 1 };
+  });
+}
+
+/**
+ * Format an identity as an inline table
+ */
+function formatIdentity(identity: Identity): string {
+  const fields = [
+    `date = ${formatString(identity.date)}`,
+    `identity = ${formatString(identity.identity)}`,
+  ];
+  if (identity.timezone) {
+    fields.push(`timezone = ${formatString(identity.timezone)}`);
+  }
+  return `{ ${fields.join(", ")} }`;
+}
+
+/**
+ * Format a list of strings as ["a", "b"]
+ */
+function formatArray(items: string[]): string {
+  return `[${items.map(formatString).join(", ")}]`;
+}
+
+/**
+ * Format a basic string
+ * JSON escapes are valid in TOML, except that TOML also escapes DEL
+ */
+function formatString(value: string): string {
+  return JSON.stringify(value).replaceAll("\x7f", "\\u007F");
+}
+
+/**
+ * Quote keys that aren't bare keys (letters, digits, "_" and "-")
+ */
+function formatKey(key: string): string {
+  return /^[A-Za-z0-9_-]+$/.test(key) ? key : formatString(key);
+}
+
+/**
+ * Format a message as a multi-line string that reads back exactly
+ * The closing delimiter goes on its own line after a line-ending backslash,
+ * which adds no newline; messages with control characters are quoted
+ */
+function formatMessage(message: string): string[] {
+  // deno-lint-ignore no-control-regex
+  if (/[\x00-\x08\x0b-\x1f\x7f]/.test(message)) {
+    return [`message = ${formatString(message)}`];
+  }
+
+  const escaped = message.replaceAll("\\", "\\\\").replaceAll(
+    '"""',
+    '""\\"',
+  );
+  return ['message = """', ...`${escaped}\\`.split("\n"), '"""'];
+}
+
+/**
+ * Replace dates parsed from TOML with their ISO strings
+ */
+function datesToStrings(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(datesToStrings);
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, datesToStrings(item)]),
+    );
+  }
+  return value;
+}
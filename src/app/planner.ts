@@ -3,21 +3,105 @@
  * Determines what will happen without actually executing
  */
 
-import { parse as parseYaml } from "https://deno.land/std@0.208.0/yaml/mod.ts";
+import { resolveDates } from "./dates.ts";
 import { RebaseSchema } from "./schema.ts";
-import { formatIdentity, getCommitInfo, getTreeHash } from "../lib/git.ts";
-import type { RescribeCommit } from "./types.ts";
+import {
+  fromZodError,
+  type PlanIssue,
+  PlanValidationError,
+} from "./validation.ts";
+import {
+  locatePlanIssues,
+  parsePlan,
+  planFormatFromPath,
+} from "./plan-formats.ts";
+import {
+  applyDiffToTree,
+  formatIdentity,
+  getCommitInfo,
+  getCurrentRef,
+  getEmptyTree,
+  getNotesRewriteRefs,
+  getTreeHash,
+  hasSignature,
+  listNotedObjects,
+  listRefs,
+  resolveCommitHash,
+} from "../lib/git.ts";
+import type { RawCommit } from "../lib/commit-object.ts";
+import { truncate } from "../lib/string.ts";
+import { addTrailers, extractTrailers } from "../lib/trailers.ts";
+import type { Identity, RescribeCommit } from "./types.ts";
 
 /**
  * Plan for a single commit
  */
 export interface CommitPlan {
   commit: RescribeCommit;
+  written: RescribeCommit; // Entry as written, before aliases and dates are resolved
   originalHash: string | null;
+  original: RawCommit | null; // Original commit object, to copy unedited parts
   action: "reuse" | "create";
   changes: string[]; // What changed (for display)
+  squashed: string[]; // Original commits folded into this one
+  message: string; // Final message, including Co-authored-by trailers
+  identityChanges: IdentityChange[];
+  lostSignatures: string[]; // Signed original commits that won't be re-signed
   tree: string; // Resolved tree hash
-  parents: string[]; // Resolved parent hashes
+  parents: string[]; // Resolved parent hashes, or "pending:<index>"
+}
+
+/**
+ * A changed author or committer identity
+ */
+export interface IdentityChange {
+  role: "author" | "committer";
+  from: string;
+  to: string;
+}
+
+/**
+ * A "split:" commit whose pieces are being planned
+ */
+interface SplitState {
+  hash: string;
+  pathspecs: string[]; // Paths taken by earlier pieces
+  expectedTree: string; // Tree once every piece has been applied
+}
+
+/**
+ * An entry in the YAML, for error messages
+ */
+interface EntryRef {
+  index: number;
+  message: string;
+}
+
+/**
+ * A branch or tag that points at a commit being rewritten
+ */
+export interface RefUpdate {
+  ref: string; // "refs/heads/feature" | "refs/tags/v1.0"
+  originalHash: string; // Rewritten commit, as written in the plan
+  target: string; // Full hash of the commit the ref points at
+  tagObject: string | null; // Annotated tag object, to be re-created
+}
+
+/**
+ * A branch whose tip is an entry of the plan, set with "branches:"
+ */
+export interface BranchUpdate {
+  ref: string; // "refs/heads/feat-a"
+  index: number; // Entry whose new commit becomes the tip
+  target: string; // Full hash the branch points at now
+}
+
+/**
+ * A note that will be copied from an original commit to its rewritten version
+ */
+export interface NoteCopy {
+  ref: string; // "refs/notes/commits"
+  originalHash: string; // Annotated commit, as written in the plan
 }
 
 /**
@@ -25,38 +109,115 @@ export interface CommitPlan {
  */
 export interface RebasePlan {
   commits: CommitPlan[];
+  head: number; // Entry the current branch ends at
+  branches: BranchUpdate[]; // Other branches rescribed with the current one
+  refs: RefUpdate[]; // Other refs to move along with the current branch
+  sign: boolean; // Sign the commits that are created
+  notes: NoteCopy[]; // Notes to carry over, per notes.rewriteRef
 }
 
+// Notes are copied following the same config as "git rebase"
+export const NOTES_REWRITE_COMMAND = "rebase";
+
+// Parent placeholder for a commit that will be created by an earlier entry
+const PENDING_PREFIX = "pending:";
+
 /**
- * Create a rebase plan from a YAML file
+ * Create a rebase plan from a plan file
  */
-export async function createPlan(yamlPath: string): Promise<RebasePlan> {
-  const yamlContent = await Deno.readTextFile(yamlPath);
-  const parsed = parseYaml(yamlContent);
-  const validated = RebaseSchema.parse(parsed);
+export async function createPlan(
+  planPath: string,
+  options: { updateRefs?: boolean; sign?: boolean } = {},
+): Promise<RebasePlan> {
+  const { updateRefs = false, sign = false } = options;
+
+  const validated = await loadPlanFile(planPath);
 
   const commitPlans: CommitPlan[] = [];
   const rewrittenMap = new Map<string, string>();
+  // Trees of planned commits, so diffs can be applied before they exist
+  const rewrittenTrees = new Map<string, string>();
   let previousCommit: string | null = null;
+  let previousTree: string | null = null;
+  let activeSplit: SplitState | null = null;
 
   for (let i = 0; i < validated.commits.length; i++) {
     const commit = validated.commits[i];
     const originalHash = extractOriginalHash(commit.content);
+    const squashed = commit.squash ?? [];
+    const entry: EntryRef = { index: i, message: commit.message };
+    const [strategy, contentHash] = commit.content.split(":");
+
+    // Every piece of a split must be planned before moving on
+    if (
+      activeSplit &&
+      (strategy !== "split" || contentHash !== activeSplit.hash)
+    ) {
+      throw new Error(unfinishedSplitMessage(activeSplit));
+    }
+    if (strategy !== "split" && commit.paths) {
+      throw new Error(
+        `${describeEntry(entry)} has paths, which only apply to split: content`,
+      );
+    }
+    if (strategy === "split" && squashed.length > 0) {
+      throw new Error(
+        `${describeEntry(entry)} cannot squash commits into a split: entry`,
+      );
+    }
 
     // Resolve tree and parents
-    const tree = await resolveContentStrategy(commit.content);
+    const parentTree = await resolveParentTree(
+      commit.parents[0],
+      previousTree,
+      rewrittenTrees,
+    );
+
+    let tree: string;
+    if (strategy === "split") {
+      const piece = await resolveSplitPiece(
+        contentHash,
+        commit.paths,
+        parentTree,
+        activeSplit,
+        entry,
+      );
+      tree = piece.tree;
+      activeSplit = piece.split;
+    } else {
+      tree = await resolveContentStrategy(commit.content, parentTree, entry);
+    }
+
+    // Fold squashed commits in using the same strategy as the entry itself
+    if (strategy === "commit" || strategy === "diff") {
+      for (const hash of squashed) {
+        tree = await resolveContentStrategy(`${strategy}:${hash}`, tree, entry);
+      }
+    }
     const parents = resolveParents(
       commit.parents,
       previousCommit,
       rewrittenMap,
     );
 
+    // Co-authors typed into the message count the same as the field
+    const typed = extractTrailers(commit.message, "Co-authored-by");
+    const coauthors = normalizeCoauthors([
+      ...typed.values,
+      ...(commit.coauthors ?? []),
+    ]);
+
     // Determine what changed and if we can reuse
     const changes: string[] = [];
+    const identityChanges: IdentityChange[] = [];
     let canReuse = false;
+    let original: RawCommit | null = null;
+    // Where the original message had its co-authors among the trailers
+    let coauthorPosition: number | undefined;
 
     if (originalHash) {
       const originalInfo = await getCommitInfo(originalHash);
+      original = originalInfo.raw;
 
       // Check tree
       if (originalInfo.tree !== tree) {
@@ -82,6 +243,11 @@ export async function createPlan(yamlPath: string): Promise<RebasePlan> {
       );
       if (authorIdentity !== commit.author.identity) {
         changes.push("author identity");
+        identityChanges.push({
+          role: "author",
+          from: authorIdentity,
+          to: commit.author.identity,
+        });
       }
       if (originalInfo.authorDate !== commit.author.date) {
         changes.push("author date");
@@ -94,49 +260,328 @@ export async function createPlan(yamlPath: string): Promise<RebasePlan> {
       );
       if (committerIdentity !== commit.committer.identity) {
         changes.push("committer identity");
+        identityChanges.push({
+          role: "committer",
+          from: committerIdentity,
+          to: commit.committer.identity,
+        });
       }
       if (originalInfo.committerDate !== commit.committer.date) {
         changes.push("committer date");
       }
 
-      // Check message
-      if (originalInfo.message !== commit.message) {
+      // Check message, ignoring trailer order
+      const originalMessage = extractTrailers(
+        originalInfo.message,
+        "Co-authored-by",
+      );
+      if (originalMessage.message !== typed.message) {
         changes.push("message");
       }
+      coauthorPosition = originalMessage.position ?? undefined;
+      if (
+        normalizeCoauthors(originalMessage.values).sort().join("\n") !==
+          [...coauthors].sort().join("\n")
+      ) {
+        changes.push("co-authors");
+      }
 
-      // Can reuse if nothing changed
-      canReuse = changes.length === 0;
+      // Can reuse if nothing changed and nothing is folded in
+      canReuse = changes.length === 0 && squashed.length === 0;
     } else {
       changes.push("new commit");
     }
 
     const action = canReuse ? "reuse" : "create";
+    const message = addTrailers(
+      typed.message,
+      "Co-authored-by",
+      coauthors,
+      coauthorPosition,
+    );
+
+    // Rewritten commits lose their signatures, unless they're signed again
+    const lostSignatures: string[] = [];
+    if (action === "create" && !sign) {
+      for (const hash of [originalHash, ...squashed]) {
+        if (hash && await hasSignature(hash)) {
+          lostSignatures.push(hash);
+        }
+      }
+    }
 
     // Track rewritten commits for parent resolution
+    // Commits that don't exist yet get a placeholder, which the executor
+    // fills in with the hash of the commit it creates for entry i
+    previousCommit = canReuse ? originalHash! : `${PENDING_PREFIX}${i}`;
     if (originalHash) {
-      if (canReuse) {
-        rewrittenMap.set(originalHash, originalHash);
-        previousCommit = originalHash;
-      } else {
-        // Use a placeholder for now - executor will fill in actual hash
-        rewrittenMap.set(originalHash, "pending");
-        previousCommit = "pending";
-      }
-    } else {
-      previousCommit = "pending";
+      rewrittenMap.set(originalHash, previousCommit);
     }
+    if (originalHash) {
+      rewrittenTrees.set(originalHash, tree);
+    }
+    // Squashed commits are rewritten into this one
+    for (const hash of squashed) {
+      rewrittenMap.set(hash, previousCommit);
+      rewrittenTrees.set(hash, tree);
+    }
+    previousTree = tree;
 
     commitPlans.push({
       commit,
+      written: validated.written[i],
       originalHash,
+      original,
       action,
       changes,
+      squashed,
+      message,
+      identityChanges,
+      lostSignatures,
       tree,
       parents,
     });
   }
 
-  return { commits: commitPlans };
+  if (activeSplit) {
+    throw new Error(unfinishedSplitMessage(activeSplit));
+  }
+
+  const { head, branches } = await findBranchTips(commitPlans);
+  const refs = updateRefs ? await findRefsToUpdate(commitPlans, branches) : [];
+  const notes = await findNotesToCopy(commitPlans);
+
+  return { commits: commitPlans, head, branches, refs, sign, notes };
+}
+
+/**
+ * Index of the plan entry a parent placeholder refers to
+ * Returns null for hashes of existing commits
+ */
+export function pendingParentIndex(parent: string): number | null {
+  if (!parent.startsWith(PENDING_PREFIX)) {
+    return null;
+  }
+  return Number(parent.substring(PENDING_PREFIX.length));
+}
+
+/**
+ * Describe a parent for display: "new #3" for commits created by the plan
+ */
+export function formatParent(parent: string): string {
+  const index = pendingParentIndex(parent);
+  return index === null ? parent : `new #${index + 1}`;
+}
+
+/**
+ * Find the entries listed as branch tips
+ * The current branch ends at the entry that lists it, or at the last entry
+ */
+async function findBranchTips(
+  commitPlans: CommitPlan[],
+): Promise<{ head: number; branches: BranchUpdate[] }> {
+  const currentRef = await getCurrentRef();
+  let head = commitPlans.length - 1;
+  const branches: BranchUpdate[] = [];
+  const seen = new Set<string>();
+
+  for (let i = 0; i < commitPlans.length; i++) {
+    const { commit } = commitPlans[i];
+    const entry: EntryRef = { index: i, message: commit.message };
+
+    for (const branch of commit.branches ?? []) {
+      const ref = `refs/heads/${branch}`;
+      if (seen.has(ref)) {
+        throw new Error(
+          `${describeEntry(entry)} lists branch '${branch}', ` +
+            `which is the tip of an earlier entry already`,
+        );
+      }
+      seen.add(ref);
+
+      if (ref === currentRef) {
+        head = i;
+        continue;
+      }
+      const target = await resolveCommitHash(ref);
+      if (!target) {
+        throw new Error(
+          `${describeEntry(entry)} lists branch '${branch}', ` +
+            "which doesn't exist",
+        );
+      }
+      branches.push({ ref, index: i, target });
+    }
+  }
+
+  return { head, branches };
+}
+
+/**
+ * Find local branches and tags (other than the current branch and the
+ * branches listed in the plan) that point at commits being rewritten
+ * Reused commits keep their hash, so refs pointing at them stay put
+ */
+async function findRefsToUpdate(
+  commitPlans: CommitPlan[],
+  branches: BranchUpdate[],
+): Promise<RefUpdate[]> {
+  const originalHashes = commitPlans
+    .filter((commitPlan) => commitPlan.action !== "reuse")
+    .flatMap((commitPlan) =>
+      commitPlan.originalHash
+        ? [commitPlan.originalHash, ...commitPlan.squashed]
+        : commitPlan.squashed
+    );
+  const currentRef = await getCurrentRef();
+
+  const updates: RefUpdate[] = [];
+  for (const ref of await listRefs(["refs/heads", "refs/tags"])) {
+    if (
+      ref.name === currentRef ||
+      branches.some((branch) => branch.ref === ref.name)
+    ) {
+      continue;
+    }
+
+    const target = ref.type === "tag" ? ref.peeled : ref.object;
+    if (!target) {
+      continue;
+    }
+
+    const originalHash = originalHashes.find((hash) => target.startsWith(hash));
+    if (originalHash) {
+      updates.push({
+        ref: ref.name,
+        originalHash,
+        target,
+        tagObject: ref.type === "tag" ? ref.object : null,
+      });
+    }
+  }
+
+  return updates;
+}
+
+/**
+ * Find notes attached to original commits that are being rewritten
+ * Reused commits keep their hash, so their notes stay where they are
+ */
+async function findNotesToCopy(
+  commitPlans: CommitPlan[],
+): Promise<NoteCopy[]> {
+  const notesRefs = await getNotesRewriteRefs(NOTES_REWRITE_COMMAND);
+  if (notesRefs.length === 0) {
+    return [];
+  }
+
+  const rewritten: { hash: string; full: string | null }[] = [];
+  for (const commitPlan of commitPlans) {
+    if (commitPlan.action !== "create") {
+      continue;
+    }
+    for (const hash of [commitPlan.originalHash, ...commitPlan.squashed]) {
+      if (hash) {
+        rewritten.push({ hash, full: await resolveCommitHash(hash) });
+      }
+    }
+  }
+
+  const notes: NoteCopy[] = [];
+  for (const ref of notesRefs) {
+    const noted = await listNotedObjects(ref);
+    for (const { hash, full } of rewritten) {
+      if (full && noted.has(full)) {
+        notes.push({ ref, originalHash: hash });
+      }
+    }
+  }
+  return notes;
+}
+
+/**
+ * Read, validate and resolve a plan file, in the format its extension says
+ * Problems are reported together, with their line numbers
+ */
+async function loadPlanFile(
+  planPath: string,
+): Promise<{ commits: RescribeCommit[]; written: RescribeCommit[] }> {
+  const source = await Deno.readTextFile(planPath);
+  const format = planFormatFromPath(planPath) ?? "yaml";
+
+  try {
+    const result = RebaseSchema.safeParse(parsePlan(source, format));
+    if (!result.success) {
+      throw new PlanValidationError(fromZodError(result.error));
+    }
+    const aliased = resolveIdentityAliases(result.data);
+    return {
+      commits: await resolveDates(aliased.commits),
+      written: result.data.commits,
+    };
+  } catch (error) {
+    if (error instanceof PlanValidationError) {
+      throw new PlanValidationError(
+        locatePlanIssues(source, format, error.issues),
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Replace "@alias" identities with their entries from the identities map
+ */
+function resolveIdentityAliases(
+  plan: { identities?: Record<string, string>; commits: RescribeCommit[] },
+): { commits: RescribeCommit[] } {
+  const aliases = plan.identities ?? {};
+  const issues: PlanIssue[] = [];
+
+  const resolve = (
+    identity: string,
+    path: (string | number)[],
+  ): string => {
+    if (!identity.startsWith("@")) {
+      return identity;
+    }
+    const resolved = aliases[identity.substring(1)];
+    if (!resolved) {
+      issues.push({ path, message: `Unknown identity alias ${identity}` });
+      return identity;
+    }
+    return resolved;
+  };
+  const resolveIdentity = (
+    identity: Identity,
+    path: (string | number)[],
+  ) => ({
+    ...identity,
+    identity: resolve(identity.identity, [...path, "identity"]),
+  });
+
+  const commits = plan.commits.map((commit, index) => ({
+    ...commit,
+    author: resolveIdentity(commit.author, ["commits", index, "author"]),
+    committer: resolveIdentity(commit.committer, [
+      "commits",
+      index,
+      "committer",
+    ]),
+    ...(commit.coauthors
+      ? {
+        coauthors: commit.coauthors.map((coauthor, coauthorIndex) =>
+          resolve(coauthor, ["commits", index, "coauthors", coauthorIndex])
+        ),
+      }
+      : {}),
+  }));
+
+  if (issues.length > 0) {
+    throw new PlanValidationError(issues);
+  }
+
+  return { commits };
 }
 
 /**
@@ -144,7 +589,7 @@ export async function createPlan(yamlPath: string): Promise<RebasePlan> {
  */
 function extractOriginalHash(content: string): string | null {
   const [strategy, hash] = content.split(":");
-  if (strategy === "commit" || strategy === "diff") {
+  if (strategy === "commit" || strategy === "diff" || strategy === "split") {
     return hash;
   }
   return null;
@@ -152,21 +597,180 @@ function extractOriginalHash(content: string): string | null {
 
 /**
  * Resolve content strategy to tree hash
+ * "diff:" replays the original change onto the new parent's tree
  */
-async function resolveContentStrategy(content: string): Promise<string> {
+async function resolveContentStrategy(
+  content: string,
+  parentTree: string,
+  entry: EntryRef,
+): Promise<string> {
   const [strategy, hash] = content.split(":");
 
   if (strategy === "tree") {
     return hash;
   }
 
-  if (strategy === "commit" || strategy === "diff") {
+  if (strategy === "commit") {
     return await getTreeHash(hash);
   }
 
+  if (strategy === "diff") {
+    return await replayDiff(content, parentTree, entry);
+  }
+
   throw new Error(`Unknown content strategy: ${strategy}`);
 }
 
+/**
+ * Apply an original commit's change (relative to its first parent) onto a tree
+ * Pathspecs limit which part of the change is applied
+ */
+async function replayDiff(
+  content: string,
+  parentTree: string,
+  entry: EntryRef,
+  pathspecs: string[] = [],
+): Promise<string> {
+  const [, hash] = content.split(":");
+  const originalInfo = await getCommitInfo(hash);
+  const originalParentTree = originalInfo.parents.length > 0
+    ? await getTreeHash(originalInfo.parents[0])
+    : await getEmptyTree();
+
+  // Same base as before: the result is exactly the original tree
+  if (originalParentTree === parentTree && pathspecs.length === 0) {
+    return originalInfo.tree;
+  }
+
+  const result = await applyDiffToTree({
+    tree: parentTree,
+    from: originalParentTree,
+    to: originalInfo.tree,
+    pathspecs,
+  });
+
+  if (!result.tree) {
+    throw new Error(
+      `${describeEntry(entry)} could not apply ${content} ` +
+        `onto its new parent. Conflicting paths:\n` +
+        result.conflicts.map((path) => `  - ${path}`).join("\n"),
+    );
+  }
+
+  return result.tree;
+}
+
+/**
+ * Resolve one piece of a "split:" commit to a tree
+ * Pieces with paths take that part of the change; the piece without paths
+ * takes the rest, and must bring the tree to exactly where the original
+ * change would have, so splitting can never lose content
+ */
+async function resolveSplitPiece(
+  hash: string,
+  paths: string[] | undefined,
+  parentTree: string,
+  split: SplitState | null,
+  entry: EntryRef,
+): Promise<{ tree: string; split: SplitState | null }> {
+  const content = `split:${hash}`;
+
+  if (!split) {
+    // First piece: work out what all the pieces must add up to
+    split = {
+      hash,
+      pathspecs: [],
+      expectedTree: await replayDiff(content, parentTree, entry),
+    };
+  }
+
+  if (paths) {
+    const tree = await replayDiff(content, parentTree, entry, paths);
+    if (tree === parentTree) {
+      throw new Error(
+        `${describeEntry(entry)} paths ${
+          JSON.stringify(paths)
+        } match nothing in ${content}`,
+      );
+    }
+    return {
+      tree,
+      split: { ...split, pathspecs: [...split.pathspecs, ...paths] },
+    };
+  }
+
+  // Last piece takes whatever is left over
+  const tree = await replayDiff(
+    content,
+    parentTree,
+    entry,
+    split.pathspecs.map((path) => `:(exclude)${path}`),
+  );
+  if (tree !== split.expectedTree) {
+    throw new Error(
+      `${describeEntry(entry)}: the pieces of ${content} don't add up to ` +
+        `the original change. Each piece after the first must use ` +
+        `"previous" as its parent.`,
+    );
+  }
+
+  return { tree, split: null };
+}
+
+/**
+ * Deduplicate co-authors, keeping the first occurrence of each
+ */
+function normalizeCoauthors(coauthors: string[]): string[] {
+  return [...new Set(coauthors.map((coauthor) => coauthor.trim()))];
+}
+
+/**
+ * Error for a split whose last piece (without paths) is missing
+ */
+function unfinishedSplitMessage(split: SplitState): string {
+  return `split:${split.hash} must end with an entry without paths, ` +
+    `which takes the rest of the change`;
+}
+
+/**
+ * Describe a YAML entry for error messages
+ */
+function describeEntry(entry: EntryRef): string {
+  const subject = truncate(entry.message.trimStart().split("\n")[0], 60);
+  return `Entry #${entry.index + 1} ("${subject}")`;
+}
+
+/**
+ * Resolve the tree of an entry's first parent
+ */
+async function resolveParentTree(
+  parent: string | undefined,
+  previousTree: string | null,
+  rewrittenTrees: Map<string, string>,
+): Promise<string> {
+  if (parent === undefined) {
+    return await getEmptyTree();
+  }
+
+  if (parent === "previous") {
+    if (!previousTree) {
+      throw new Error("Cannot use 'previous' for first commit");
+    }
+    return previousTree;
+  }
+
+  if (parent.startsWith("rewritten:")) {
+    const originalHash = parent.substring("rewritten:".length);
+    const tree = rewrittenTrees.get(originalHash);
+    if (!tree) {
+      throw new Error(`No rewritten commit found for ${originalHash}`);
+    }
+    return tree;
+  }
+
+  return await getTreeHash(parent);
+}
+
 /**
  * Resolve parent references to actual commit hashes
  */
@@ -0,0 +1,108 @@
+/**
+ * Safety checks before git-rescribe touches the branch or working tree
+ */
+
+import { exists } from "../lib/fs.ts";
+import {
+  createAutostash,
+  getCurrentRef,
+  getGitPath,
+  getRefHash,
+  hasUncommittedChanges,
+} from "../lib/git.ts";
+import type { RescribeState } from "./state.ts";
+import type { Log } from "./types.ts";
+
+// Files git leaves behind while an operation is stopped halfway
+const IN_PROGRESS_MARKERS: [string, string][] = [
+  ["rebase-merge", "a rebase"],
+  ["rebase-apply", "a rebase or am"],
+  ["MERGE_HEAD", "a merge"],
+  ["CHERRY_PICK_HEAD", "a cherry-pick"],
+  ["REVERT_HEAD", "a revert"],
+  ["BISECT_LOG", "a bisect"],
+];
+
+/**
+ * Refuse to run while another git operation is in progress
+ */
+export async function checkNoOperationInProgress(): Promise<void> {
+  for (const [marker, operation] of IN_PROGRESS_MARKERS) {
+    if (await exists(await getGitPath(marker))) {
+      throw new Error(
+        `It looks like ${operation} is in progress. ` +
+          "Finish or abort it before running git-rescribe.",
+      );
+    }
+  }
+}
+
+/**
+ * Make sure uncommitted changes can't be lost by the final hard reset
+ * With autostash, they are stashed away; otherwise we refuse to run
+ * Returns the autostash commit, if one was created
+ */
+export async function prepareWorkingTree(
+  autostash: boolean,
+  log: Log = console.log,
+): Promise<string | null> {
+  if (!await hasUncommittedChanges()) {
+    return null;
+  }
+
+  if (!autostash) {
+    throw new Error(
+      "You have uncommitted changes. " +
+        "Commit or stash them, or run again with --autostash.",
+    );
+  }
+
+  const hash = await createAutostash();
+  log(`Created autostash: ${hash.substring(0, 7)}`);
+  return hash;
+}
+
+/**
+ * Refuse to continue if there are uncommitted changes now
+ */
+export async function checkWorkingTreeClean(): Promise<void> {
+  if (await hasUncommittedChanges()) {
+    throw new Error(
+      "You have uncommitted changes, which applying would throw away. " +
+        "Commit or stash them, then run --continue again.",
+    );
+  }
+}
+
+/**
+ * Refuse to continue if HEAD moved since the rescribe started,
+ * since the plan was generated from the old history
+ */
+export async function checkHeadUnchanged(state: RescribeState): Promise<void> {
+  const ref = await getCurrentRef();
+  const head = await getRefHash("HEAD");
+
+  if (ref !== state.ref) {
+    throw new Error(
+      `HEAD changed from ${describeRef(state.ref)} to ${
+        describeRef(ref)
+      } since the rescribe started. ` +
+        `Check out ${describeRef(state.ref)} again, or use --abort.`,
+    );
+  }
+
+  if (head !== state.head) {
+    throw new Error(
+      `${describeRef(ref)} moved from ${state.head.substring(0, 7)} to ${
+        head?.substring(0, 7)
+      } since the rescribe started. Reset it, or use --abort.`,
+    );
+  }
+}
+
+/**
+ * Describe a ref for messages ("main" or "detached HEAD")
+ */
+function describeRef(ref: string): string {
+  return ref === "HEAD" ? "detached HEAD" : ref.replace(/^refs\/heads\//, "");
+}
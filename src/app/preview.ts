@@ -0,0 +1,230 @@
+/**
+ * Human-readable preview of a rebase plan
+ * Shows every changed field with its old and new value, so the plan can be
+ * reviewed without reading the YAML again
+ */
+
+import { diffLines } from "../lib/diff.ts";
+import { formatIdentity, getCommitInfo, getTreeDiffStat } from "../lib/git.ts";
+import { truncate } from "../lib/string.ts";
+import { color } from "../lib/terminal.ts";
+import { type CommitPlan, formatParent, type RebasePlan } from "./planner.ts";
+
+// Indentation of the details under each entry
+const INDENT = "         ";
+
+/**
+ * How the preview is printed
+ */
+export interface PreviewOptions {
+  color: boolean; // Color old and new values (for terminals)
+  stat: boolean; // Show a diffstat for entries whose tree changed
+}
+
+/**
+ * Print what the plan will do to each commit
+ */
+export async function printPlan(
+  plan: RebasePlan,
+  options: PreviewOptions,
+): Promise<void> {
+  const paint = (
+    text: string,
+    name: Parameters<typeof color>[1],
+  ) => options.color ? color(text, name) : text;
+
+  console.log(
+    `\nPlan for ${plan.commits.length} commit${
+      plan.commits.length === 1 ? "" : "s"
+    }:`,
+  );
+
+  for (const commitPlan of plan.commits) {
+    const firstLine = commitPlan.commit.message.trimStart().split("\n")[0];
+    const truncated = truncate(firstLine, 60);
+
+    const status = commitPlan.action === "reuse"
+      ? paint("  Reuse", "gray")
+      : paint(" Modify", "yellow");
+    console.log(`${status}  ${truncated}`);
+
+    if (commitPlan.squashed.length > 0) {
+      console.log(
+        `${INDENT}Squash ${commitPlan.squashed.length + 1} commits: ${
+          [commitPlan.originalHash, ...commitPlan.squashed]
+            .filter(Boolean)
+            .join(", ")
+        }`,
+      );
+    }
+
+    // Show what changed for modified commits, with the values before and
+    // after
+    if (commitPlan.action === "create" && commitPlan.changes.length > 0) {
+      for (const line of await describeChanges(commitPlan, options, paint)) {
+        console.log(`${INDENT}${line}`);
+      }
+    }
+    if (commitPlan.lostSignatures.length > 0) {
+      console.log(
+        `${INDENT}! loses signature of ${commitPlan.lostSignatures.join(", ")}`,
+      );
+    }
+  }
+
+  // Summarize identity changes, once per distinct change
+  const identityCounts = new Map<string, number>();
+  for (const commitPlan of plan.commits) {
+    for (const change of commitPlan.identityChanges) {
+      const key = `${change.role}: ${change.from} → ${change.to}`;
+      identityCounts.set(key, (identityCounts.get(key) ?? 0) + 1);
+    }
+  }
+  if (identityCounts.size > 0) {
+    console.log("\nIdentity changes:");
+    for (const [change, count] of identityCounts) {
+      console.log(
+        `  ${change} (${count} commit${count === 1 ? "" : "s"})`,
+      );
+    }
+  }
+
+  const lost = plan.commits.flatMap((commitPlan) => commitPlan.lostSignatures);
+  if (lost.length > 0) {
+    console.log(
+      `\n${
+        lost.length === 1
+          ? "1 signed commit will lose its signature"
+          : `${lost.length} signed commits will lose their signatures`
+      }. Use --sign (or set commit.gpgSign) to sign the rewritten commits.`,
+    );
+  } else if (plan.sign) {
+    console.log("\nRewritten commits will be signed.");
+  }
+
+  if (plan.notes.length > 0) {
+    const notesRefs = [...new Set(plan.notes.map((note) => note.ref))];
+    console.log(
+      `\n${plan.notes.length} note${
+        plan.notes.length === 1 ? "" : "s"
+      } will be copied to the rewritten commits (${notesRefs.join(", ")})`,
+    );
+  }
+
+  if (plan.branches.length > 0) {
+    console.log("\nBranches to update:");
+    if (plan.head !== plan.commits.length - 1) {
+      console.log(`  HEAD → entry #${plan.head + 1}`);
+    }
+    for (const branch of plan.branches) {
+      console.log(
+        `  ${branch.ref} (${branch.target.substring(0, 7)} → entry #${
+          branch.index + 1
+        })`,
+      );
+    }
+  }
+
+  if (plan.refs.length > 0) {
+    console.log("\nRefs to update:");
+    for (const refUpdate of plan.refs) {
+      console.log(
+        `  ${refUpdate.ref} (${refUpdate.target.substring(0, 7)}${
+          refUpdate.tagObject ? ", annotated tag" : ""
+        })`,
+      );
+    }
+  }
+}
+
+/**
+ * Describe each change to a commit as "field: old → new" lines, with a diff
+ * for the message and, with --stat, for the tree
+ */
+async function describeChanges(
+  commitPlan: CommitPlan,
+  options: PreviewOptions,
+  paint: (text: string, name: "red" | "green") => string,
+): Promise<string[]> {
+  if (!commitPlan.originalHash) {
+    return commitPlan.changes.map((change) => `- ${change}`);
+  }
+
+  const { commit } = commitPlan;
+  const original = await getCommitInfo(commitPlan.originalHash);
+  const lines: string[] = [];
+  const field = (name: string, before: string, after: string) => {
+    lines.push(`${name}: ${paint(before, "red")} → ${paint(after, "green")}`);
+  };
+  const abbreviate = (parent: string) =>
+    parent.startsWith("new #") ? parent : parent.substring(0, 7);
+
+  for (const change of commitPlan.changes) {
+    switch (change) {
+      case "author identity":
+        field(
+          "author",
+          formatIdentity(original.authorName, original.authorEmail),
+          commit.author.identity,
+        );
+        break;
+      case "author date":
+        field("author date", original.authorDate, commit.author.date);
+        break;
+      case "committer identity":
+        field(
+          "committer",
+          formatIdentity(original.committerName, original.committerEmail),
+          commit.committer.identity,
+        );
+        break;
+      case "committer date":
+        field("committer date", original.committerDate, commit.committer.date);
+        break;
+      case "parents":
+        field(
+          "parents",
+          original.parents.map(abbreviate).join(", ") || "(root)",
+          commitPlan.parents.map(formatParent).map(abbreviate).join(", ") ||
+            "(root)",
+        );
+        break;
+
+      // Co-authors are trailers, so one message diff covers both
+      case "message":
+      case "co-authors": {
+        if (lines.includes("message:")) {
+          break;
+        }
+        lines.push("message:");
+        const diff = diffLines(
+          original.message.split("\n"),
+          commitPlan.message.split("\n"),
+        );
+        for (const { kind, text } of diff) {
+          lines.push(
+            kind === "same"
+              ? `    ${text}`
+              : kind === "removed"
+              ? paint(`  - ${text}`, "red")
+              : paint(`  + ${text}`, "green"),
+          );
+        }
+        break;
+      }
+
+      case "content":
+        lines.push("content: tree differs from the original");
+        if (options.stat) {
+          const stat = await getTreeDiffStat(original.tree, commitPlan.tree);
+          lines.push(...stat.map((line) => `  ${line}`));
+        }
+        break;
+
+      default:
+        lines.push(`- ${change}`);
+    }
+  }
+
+  return lines;
+}
@@ -0,0 +1,593 @@
+/**
+ * Import and export classic git rebase -i todo lists
+ * Metadata a todo list can't hold is written as "exec git commit --amend"
+ * lines after the commit it belongs to, and read back from them on import
+ */
+
+import {
+  formatIdentity,
+  getCommitInfo,
+  getCurrentBranch,
+  parseIdentity,
+  resolveCommitHash,
+} from "../lib/git.ts";
+import { extractTrailers } from "../lib/trailers.ts";
+import { toRescribeCommit } from "./converter.ts";
+import type { RebasePlan } from "./planner.ts";
+import type { RescribeCommit } from "./types.ts";
+
+// Long and short names of todo commands
+const COMMANDS: Record<string, string> = {
+  p: "pick",
+  r: "reword",
+  e: "edit",
+  s: "squash",
+  f: "fixup",
+  x: "exec",
+  b: "break",
+  d: "drop",
+  l: "label",
+  t: "reset",
+  m: "merge",
+  u: "update-ref",
+};
+
+/**
+ * Where HEAD is while a todo list is read: on an imported entry, on an
+ * existing commit, or on a new root (null)
+ */
+type Position = { entry: number } | { hash: string; name: string } | null;
+
+/**
+ * An entry read from the todo list
+ */
+interface ImportedEntry {
+  commit: RescribeCommit;
+  name: string; // Hash as written in the content
+  tip: string; // Full hash of the last original commit folded in
+  intact: boolean; // Tree is still exactly the tip's tree
+}
+
+/**
+ * Turn a todo list into plan entries, starting from base ("--root" or a
+ * commit, which the "onto" label also points at)
+ * Commits keep their metadata, except what exec git commit --amend lines
+ * after them change; commits that don't follow their original parent are
+ * replayed as diffs
+ */
+export async function importRebaseTodo(
+  source: string,
+  base: string,
+): Promise<RescribeCommit[]> {
+  const entries: ImportedEntry[] = [];
+  let current: Position = null;
+  if (base !== "--root") {
+    const hash = await resolveCommitHash(base);
+    if (!hash) {
+      throw new Error(`Unknown base ${base}`);
+    }
+    current = { hash, name: hash };
+  }
+  const labels = new Map<string, Position>([["onto", current]]);
+
+  const lines = source.split("\n");
+  for (let n = 0; n < lines.length; n++) {
+    const line = lines[n].trim();
+    if (line === "" || line.startsWith("#")) {
+      continue;
+    }
+
+    const fail = (message: string): never => {
+      throw new Error(`Rebase todo line ${n + 1} ("${line}"): ${message}`);
+    };
+
+    const [word, ...args] = line.split(/\s+/);
+    const command = Object.hasOwn(COMMANDS, word) ? COMMANDS[word] : word;
+
+    // Resolve a commit named in the todo list
+    const lookup = async (name: string | undefined) => {
+      const hash = name ? await resolveCommitHash(name) : null;
+      if (!hash) {
+        return fail(`unknown commit ${name ?? ""}`);
+      }
+      return { hash, name: /^[a-f0-9]{7,40}$/.test(name!) ? name! : hash };
+    };
+
+    // Parent reference for a position, as written in the plan
+    const parentRef = (position: Position, first: boolean): string => {
+      if (position === null) {
+        return fail("a merge can't have a new root as a parent");
+      }
+      if ("hash" in position) {
+        return position.name;
+      }
+      return first && position.entry === entries.length - 1
+        ? "previous"
+        : `rewritten:${entries[position.entry].name}`;
+    };
+
+    // Whether a position is still the original parent, with its original
+    // tree, so a commit on top of it can keep its tree
+    const follows = (position: Position, parent: string | null): boolean =>
+      position === null
+        ? parent === null
+        : "hash" in position
+        ? position.hash === parent
+        : entries[position.entry].intact &&
+          entries[position.entry].tip === parent;
+
+    switch (command) {
+      case "pick":
+      case "reword":
+      case "edit": {
+        const { hash, name } = await lookup(args[0]);
+        const info = await getCommitInfo(hash);
+        if (info.parents.length > 1) {
+          fail("merges can only be recreated with merge -C");
+        }
+
+        // The original tree is still right if it follows its old parent
+        const intact = follows(current, info.parents[0] ?? null);
+
+        const commit = toRescribeCommit(
+          info,
+          `${intact ? "commit" : "diff"}:${name}`,
+          current === null ? [] : [parentRef(current, true)],
+        );
+        entries.push({ commit, name, tip: hash, intact });
+        current = { entry: entries.length - 1 };
+        break;
+      }
+
+      case "squash":
+      case "fixup": {
+        const replaceMessage = args[0] === "-C" || args[0] === "-c";
+        const { hash, name } = await lookup(
+          replaceMessage ? args[1] : args[0],
+        );
+        if (
+          current === null || !("entry" in current) ||
+          current.entry !== entries.length - 1
+        ) {
+          fail(`${command} must follow the commit it folds into`);
+        }
+
+        const target = entries[entries.length - 1];
+        const info = await getCommitInfo(hash);
+        const folded = toRescribeCommit(info, "", []);
+
+        // Squashed commits use the entry's strategy, so a commit that
+        // didn't follow the last one needs the entry replayed as diffs
+        if (!target.intact || info.parents[0] !== target.tip) {
+          target.commit.content = `diff:${target.name}`;
+          target.intact = false;
+        }
+        target.tip = hash;
+        target.commit.squash = [...(target.commit.squash ?? []), name];
+
+        if (replaceMessage) {
+          target.commit.message = folded.message;
+        } else if (command === "squash") {
+          target.commit.message =
+            `${target.commit.message}\n\n${folded.message}`;
+        }
+        for (const coauthor of folded.coauthors ?? []) {
+          if (!target.commit.coauthors?.includes(coauthor)) {
+            target.commit.coauthors = [
+              ...(target.commit.coauthors ?? []),
+              coauthor,
+            ];
+          }
+        }
+        break;
+      }
+
+      case "merge": {
+        if (args[0] !== "-C" && args[0] !== "-c") {
+          fail("only merges that recreate a commit (merge -C) can be imported");
+        }
+        const { hash, name } = await lookup(args[1]);
+        const mergedLabels = args.slice(2);
+        const comment = mergedLabels.indexOf("#");
+        if (comment !== -1) {
+          mergedLabels.splice(comment);
+        }
+
+        const info = await getCommitInfo(hash);
+        const parents = [parentRef(current, true)];
+        for (const [i, label] of mergedLabels.entries()) {
+          const position = labels.get(label) ?? await lookup(label);
+          // A diff: replay is taken against the first parent, so it would
+          // bring back whatever changed on a merged branch
+          if (!follows(position, info.parents[i + 1] ?? null)) {
+            fail(
+              `${label} is no longer the original merged branch, so the ` +
+                "merge can't be recreated from its old tree",
+            );
+          }
+          parents.push(parentRef(position, false));
+        }
+
+        // Like a pick, the merge is replayed as a diff once its first
+        // parent has changed
+        const intact = follows(current, info.parents[0] ?? null);
+        const commit = toRescribeCommit(
+          info,
+          `${intact ? "commit" : "diff"}:${name}`,
+          parents,
+        );
+        entries.push({ commit, name, tip: hash, intact });
+        current = { entry: entries.length - 1 };
+        break;
+      }
+
+      case "label":
+        labels.set(args[0], current);
+        break;
+
+      case "reset": {
+        const label = args.join(" ");
+        current = label === "[new root]"
+          ? null
+          : labels.has(args[0])
+          ? labels.get(args[0])!
+          : await lookup(args[0]);
+        break;
+      }
+
+      case "exec": {
+        if (current === null || !("entry" in current)) {
+          fail("exec lines can only amend an imported commit");
+        }
+        const amend = parseAmend(line.substring(word.length).trim());
+        if (!amend) {
+          fail(
+            'only "git commit --amend" exec lines (as written by ' +
+              "--to-rebase-todo) can be imported",
+          );
+        }
+        applyAmend(
+          entries[(current as { entry: number }).entry].commit,
+          amend!,
+        );
+        break;
+      }
+
+      case "update-ref": {
+        const branch = args[0]?.match(/^refs\/heads\/(.+)$/)?.[1];
+        if (!branch) {
+          fail("only branches (refs/heads/...) can be updated");
+        }
+        if (current === null || !("entry" in current)) {
+          fail("update-ref must follow an imported commit");
+        }
+        const { commit } = entries[(current as { entry: number }).entry];
+        commit.branches = [...(commit.branches ?? []), branch!];
+        break;
+      }
+
+      case "drop":
+      case "break":
+      case "noop":
+        // Nothing to keep: dropped commits are left out
+        break;
+
+      default:
+        fail(`unknown command ${word}`);
+    }
+  }
+
+  // The branch ends wherever the list leaves off, which a final reset can
+  // move back from the last entry
+  const currentBranch = await getCurrentBranch();
+  if (
+    current !== null && "entry" in current &&
+    current.entry !== entries.length - 1 && currentBranch !== "HEAD"
+  ) {
+    const { commit } = entries[current.entry];
+    commit.branches = [...(commit.branches ?? []), currentBranch];
+  }
+
+  return entries.map((entry) => entry.commit);
+}
+
+/**
+ * Write a plan as a todo list for git rebase -i
+ * Entries the plan creates get an exec line that sets their metadata, so
+ * running the list gives the same authors, committers, dates and messages
+ */
+export function formatRebaseTodo(plan: RebasePlan): string {
+  // Entries that a later entry names as a parent need a label
+  const entryOf = new Map<string, number>();
+  plan.commits.forEach(({ commit, squashed }, i) => {
+    for (const hash of [commit.content.split(":")[1], ...squashed]) {
+      entryOf.set(hash, i);
+    }
+  });
+  const labelled = new Set<number>();
+  const parentName = (parent: string): string => {
+    if (!parent.startsWith("rewritten:")) {
+      return parent;
+    }
+    const index = entryOf.get(parent.substring("rewritten:".length))!;
+    labelled.add(index);
+    return `entry-${index + 1}`;
+  };
+
+  const entryLines = plan.commits.map((commitPlan, i) => {
+    const { commit } = commitPlan;
+    const [strategy, hash] = commit.content.split(":");
+    if (strategy !== "commit" && strategy !== "diff") {
+      throw new Error(
+        `Entry #${i + 1} uses ${strategy}: content, ` +
+          "which a rebase todo list can't express",
+      );
+    }
+
+    const lines: string[] = [];
+    const subject = commit.message.trimStart().split("\n")[0];
+    const [first, ...others] = commit.parents;
+    if (first === undefined) {
+      lines.push("reset [new root]");
+    } else if (first !== "previous") {
+      lines.push(`reset ${parentName(first)}`);
+    }
+
+    if (others.length > 0) {
+      lines.push(
+        `merge -C ${hash} ${others.map(parentName).join(" ")} # ${subject}`,
+      );
+    } else {
+      lines.push(`pick ${hash} ${subject}`);
+      for (const squashed of commitPlan.squashed) {
+        lines.push(`fixup ${squashed}`);
+      }
+    }
+
+    if (commitPlan.action === "create") {
+      lines.push(`exec ${formatAmend(commitPlan.commit, commitPlan.message)}`);
+    }
+    return lines;
+  });
+
+  // Other branches are moved with update-ref, and a current branch that
+  // doesn't end at the last entry is reset back to its tip
+  for (const branch of plan.branches) {
+    entryLines[branch.index].push(`update-ref ${branch.ref}`);
+  }
+  const last = plan.commits.length - 1;
+  if (plan.head !== last) {
+    labelled.add(plan.head);
+  }
+
+  const lines = entryLines.flatMap((entry, i) =>
+    labelled.has(i) ? [...entry, `label entry-${i + 1}`] : entry
+  );
+  if (plan.head !== last) {
+    lines.push(`reset entry-${plan.head + 1}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Metadata set by an exec git commit --amend line
+ */
+interface Amend {
+  authorName?: string;
+  authorEmail?: string;
+  authorDate?: string;
+  committerName?: string;
+  committerEmail?: string;
+  committerDate?: string;
+  message?: string;
+}
+
+/**
+ * Write the command that sets a commit's metadata, with the message on
+ * one line so it fits in the todo list
+ */
+function formatAmend(commit: RescribeCommit, message: string): string {
+  const committer = parseIdentity(commit.committer.identity);
+  return [
+    "printf '%s\\n'",
+    ...message.split("\n").map(quote),
+    "|",
+    `GIT_COMMITTER_NAME=${quote(committer.name)}`,
+    `GIT_COMMITTER_EMAIL=${quote(committer.email)}`,
+    `GIT_COMMITTER_DATE=${quote(commit.committer.date)}`,
+    "git commit --amend --allow-empty --no-verify --cleanup=verbatim",
+    `--author=${quote(commit.author.identity)}`,
+    `--date=${quote(commit.author.date)}`,
+    "-F -",
+  ].join(" ");
+}
+
+/**
+ * Read an exec git commit --amend command back
+ * Returns null for any other command
+ */
+function parseAmend(command: string): Amend | null {
+  const words = splitWords(command);
+  if (!words) {
+    return null;
+  }
+
+  const amend: Amend = {};
+  let i = 0;
+
+  // A message piped in from printf '%s\n' 'line' 'line'
+  let piped: string | null = null;
+  if (words[0] === "printf") {
+    const pipe = words.indexOf("|");
+    if (words[1] !== "%s\\n" || pipe === -1) {
+      return null;
+    }
+    piped = words.slice(2, pipe).join("\n");
+    i = pipe + 1;
+  }
+
+  const ENV: Record<string, keyof Amend> = {
+    GIT_AUTHOR_NAME: "authorName",
+    GIT_AUTHOR_EMAIL: "authorEmail",
+    GIT_AUTHOR_DATE: "authorDate",
+    GIT_COMMITTER_NAME: "committerName",
+    GIT_COMMITTER_EMAIL: "committerEmail",
+    GIT_COMMITTER_DATE: "committerDate",
+  };
+  for (; i < words.length; i++) {
+    const [name, value] = words[i].split(/=(.*)/s);
+    if (!Object.hasOwn(ENV, name) || value === undefined) {
+      break;
+    }
+    amend[ENV[name]] = value;
+  }
+
+  if (words[i] !== "git" || words[i + 1] !== "commit") {
+    return null;
+  }
+
+  const messages: string[] = [];
+  let amending = false;
+  for (i += 2; i < words.length; i++) {
+    const [option, inlineValue] = words[i].startsWith("--")
+      ? words[i].split(/=(.*)/s)
+      : [words[i], undefined];
+    const value = () => inlineValue ?? words[++i];
+
+    if (option === "--amend") {
+      amending = true;
+    } else if (
+      ["--allow-empty", "--no-verify", "--no-edit", "-n"].includes(option)
+    ) {
+      continue;
+    } else if (option === "--cleanup") {
+      value();
+    } else if (option === "--author") {
+      const identity = parseIdentity(value() ?? "");
+      amend.authorName = identity.name;
+      amend.authorEmail = identity.email;
+    } else if (option === "--date") {
+      amend.authorDate = value();
+    } else if (option === "-m" || option === "--message") {
+      messages.push(value() ?? "");
+    } else if (option === "-F" || option === "--file") {
+      if (value() !== "-" || piped === null) {
+        return null;
+      }
+      messages.push(piped);
+    } else {
+      return null;
+    }
+  }
+
+  if (!amending) {
+    return null;
+  }
+  if (messages.length > 0) {
+    // Like git, several -m options are separate paragraphs
+    amend.message = messages.join("\n\n");
+  }
+  return amend;
+}
+
+/**
+ * Apply an amend to an imported entry
+ */
+function applyAmend(commit: RescribeCommit, amend: Amend): void {
+  const merge = (identity: string, name?: string, email?: string) => {
+    const current = parseIdentity(identity);
+    return formatIdentity(name ?? current.name, email ?? current.email);
+  };
+
+  commit.author = {
+    ...commit.author,
+    identity: merge(
+      commit.author.identity,
+      amend.authorName,
+      amend.authorEmail,
+    ),
+    date: amend.authorDate ?? commit.author.date,
+  };
+  commit.committer = {
+    ...commit.committer,
+    identity: merge(
+      commit.committer.identity,
+      amend.committerName,
+      amend.committerEmail,
+    ),
+    date: amend.committerDate ?? commit.committer.date,
+  };
+
+  if (amend.message !== undefined) {
+    const { message, values } = extractTrailers(
+      amend.message,
+      "Co-authored-by",
+    );
+    commit.message = message;
+    if (values.length > 0) {
+      commit.coauthors = values;
+    } else {
+      delete commit.coauthors;
+    }
+  }
+}
+
+/**
+ * Split a command line into words, following sh quoting
+ * An unquoted "|" is a word of its own; returns null for unclosed quotes
+ */
+function splitWords(command: string): string[] | null {
+  const words: string[] = [];
+  let word: string | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (char === " " || char === "\t") {
+      if (word !== null) {
+        words.push(word);
+        word = null;
+      }
+    } else if (char === "|") {
+      if (word !== null) {
+        words.push(word);
+        word = null;
+      }
+      words.push("|");
+    } else if (char === "'") {
+      const end = command.indexOf("'", i + 1);
+      if (end === -1) {
+        return null;
+      }
+      word = (word ?? "") + command.substring(i + 1, end);
+      i = end;
+    } else if (char === '"') {
+      let value = "";
+      for (i++; command[i] !== '"'; i++) {
+        if (i >= command.length) {
+          return null;
+        }
+        if (command[i] === "\\" && /["\\$`]/.test(command[i + 1])) {
+          i++;
+        }
+        value += command[i];
+      }
+      word = (word ?? "") + value;
+    } else if (char === "\\" && i + 1 < command.length) {
+      word = (word ?? "") + command[++i];
+    } else {
+      word = (word ?? "") + char;
+    }
+  }
+  if (word !== null) {
+    words.push(word);
+  }
+
+  return words;
+}
+
+/**
+ * Quote a word for sh
+ */
+function quote(word: string): string {
+  return `'${word.replaceAll("'", `'\\''`)}'`;
+}
@@ -1,33 +1,66 @@
 /**
  * Zod schemas for validating git-rescribe YAML files
+ * Objects are strict, so misspelled keys are reported instead of dropped
  */
 
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
 
+const IdentityStringSchema = z.string().regex(
+  /^.+ <.+@.+>$/,
+  'Identity must look like "Name <email@example.com>"',
+);
+
+const AliasNameSchema = z.string().regex(
+  /^[A-Za-z0-9_.-]+$/,
+  "Alias names may only use letters, digits, '_', '.' and '-'",
+);
+
+// Either a full identity or "@alias" from the top-level identities map
+const IdentityRefSchema = z.string().regex(
+  /^(.+ <.+@.+>|@[A-Za-z0-9_.-]+)$/,
+  'Identity must look like "Name <email@example.com>" or "@alias"',
+);
+
 const IdentitySchema = z.object({
   date: z.string(),
-  identity: z.string().regex(/^.+ <.+@.+>$/),
-});
+  identity: IdentityRefSchema,
+  timezone: z.string().optional(),
+}).strict();
 
 const ContentSchema = z.string().refine(
-  (val) => /^(tree|diff|commit):[a-f0-9]{7,40}$/.test(val),
-  "Content must be tree:hash, diff:hash, or commit:hash",
+  (val) => /^(tree|diff|commit|split):[a-f0-9]{7,40}$/.test(val),
+  "Content must be tree:hash, diff:hash, commit:hash, or split:hash",
+);
+
+const ParentSchema = z.string().regex(
+  /^(previous|rewritten:[a-f0-9]{7,40}|[a-f0-9]{7,40})$/,
+  "Parent must be previous, rewritten:hash, or hash",
 );
 
-const ParentSchema = z.union([
-  z.literal("previous"),
-  z.string().regex(/^rewritten:[a-f0-9]{7,40}$/),
-  z.string().regex(/^[a-f0-9]{7,40}$/),
-]);
+// A branch name under refs/heads, as given to --branches
+const BranchSchema = z.string().regex(
+  /^(?!-)(?!.*\.\.)[^\s~^:?*[\\]+$/,
+  "Branches must be branch names, like feat-a",
+);
 
 const CommitSchema = z.object({
   author: IdentitySchema,
+  branches: z.array(BranchSchema).optional(),
+  coauthors: z.array(IdentityRefSchema).optional(),
   committer: IdentitySchema,
   content: ContentSchema,
   message: z.string(),
   parents: z.array(ParentSchema),
-});
+  paths: z.array(z.string().min(1)).min(1).optional(),
+  squash: z.array(
+    z.string().regex(
+      /^[a-f0-9]{7,40}$/,
+      "Squash entries must be commit hashes",
+    ),
+  ).optional(),
+}).strict();
 
 export const RebaseSchema = z.object({
+  identities: z.record(AliasNameSchema, IdentityStringSchema).optional(),
   commits: z.array(CommitSchema),
-});
+}).strict();
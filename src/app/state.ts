@@ -0,0 +1,70 @@
+/**
+ * State of an in-progress rescribe, kept between starting and --continue
+ */
+
+import { exists } from "../lib/fs.ts";
+
+const RESCRIBE_STATE = ".git/RESCRIBE_STATE";
+
+/**
+ * An entry the executor has already applied
+ */
+export interface JournalEntry {
+  index: number; // Position in the plan
+  originalHash: string | null;
+  newHash: string;
+  fingerprint: string; // Everything the new commit was built from
+}
+
+/**
+ * What was checked out when the rescribe started, and progress so far
+ */
+export interface RescribeState {
+  ref: string; // "refs/heads/main", or "HEAD" if detached
+  head: string; // Commit HEAD pointed at
+  autostash: string | null; // Stash commit holding uncommitted changes
+  sign?: boolean; // Whether created commits are signed, fixed at the start
+  updateRefs?: boolean; // Whether other refs in the range move, fixed at the start
+  range?: string[]; // Hashes naming the original commits (like ["abc", "^def"])
+  journal: JournalEntry[]; // Applied entries, in plan order
+}
+
+/**
+ * Read the state file
+ * Returns null if no rescribe is in progress
+ */
+export async function readState(): Promise<RescribeState | null> {
+  if (!await exists(RESCRIBE_STATE)) {
+    return null;
+  }
+
+  try {
+    const state = JSON.parse(await Deno.readTextFile(RESCRIBE_STATE));
+    return { journal: [], ...state };
+  } catch {
+    throw new Error(
+      `Could not read ${RESCRIBE_STATE}. Use --abort to start over.`,
+    );
+  }
+}
+
+/**
+ * Write the state file
+ */
+export async function writeState(state: RescribeState): Promise<void> {
+  await Deno.writeTextFile(
+    RESCRIBE_STATE,
+    JSON.stringify(state, null, 2) + "\n",
+  );
+}
+
+/**
+ * Remove the state file, if there is one
+ */
+export async function clearState(): Promise<void> {
+  try {
+    await Deno.remove(RESCRIBE_STATE);
+  } catch {
+    // Ignore errors
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Transform hooks: rewrite the generated YAML with a TypeScript function
+ * instead of (or before) editing it by hand
+ */
+
+import { RebaseSchema } from "./schema.ts";
+import { formatPlan, parsePlan, type PlanFormat } from "./plan-formats.ts";
+import { fromZodError, PlanValidationError } from "./validation.ts";
+import type { CommitTransform, RebasePlan } from "./types.ts";
+
+/**
+ * Import a transform module, relative to the current directory
+ */
+export async function loadTransform(
+  modulePath: string,
+): Promise<CommitTransform> {
+  const url = new URL(modulePath, `file://${Deno.cwd()}/`);
+
+  let module: Record<string, unknown>;
+  try {
+    module = await import(url.href);
+  } catch (error) {
+    throw new Error(
+      `Could not load transform ${modulePath}: ${
+        error instanceof Error ? error.message : error
+      }`,
+    );
+  }
+
+  const transform = module.default ?? module.transform;
+  if (typeof transform !== "function") {
+    throw new Error(
+      `Transform ${modulePath} must export a function, ` +
+        `as its default export or as "transform"`,
+    );
+  }
+  return transform as CommitTransform;
+}
+
+/**
+ * Run the commits in a plan file through a transform
+ * The result is validated like a hand-edited file, then formatted again
+ */
+export async function applyTransform(
+  source: string,
+  format: PlanFormat,
+  transform: CommitTransform,
+): Promise<string> {
+  const data = parsePlan(source, format) as RebasePlan;
+  const commits = await transform(structuredClone(data.commits));
+
+  const result = RebaseSchema.safeParse({ ...data, commits });
+  if (!result.success) {
+    throw new PlanValidationError(
+      fromZodError(result.error),
+      "Transform returned invalid commits",
+    );
+  }
+
+  return formatPlan(result.data, format);
+}
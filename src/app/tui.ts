@@ -0,0 +1,319 @@
+/**
+ * Full-screen editor for the plan (--tui)
+ * Lists the commits with their original hash, subject and diffstat; edits
+ * apply to the selected commits (or the one under the cursor), and every
+ * entry shows whether the planner would reuse or rewrite it
+ */
+
+import { openEditor } from "../lib/editor.ts";
+import {
+  getShortStats,
+  parseIdentity,
+  resolveCommitHash,
+  showCommit,
+} from "../lib/git.ts";
+import { parseDuration } from "../lib/date.ts";
+import { truncate } from "../lib/string.ts";
+import {
+  color,
+  drawScreen,
+  enterFullScreen,
+  inverse,
+  leaveFullScreen,
+  promptLine,
+  readKey,
+  screenSize,
+  withNormalScreen,
+} from "../lib/terminal.ts";
+import { reword, setAuthor, shiftDates } from "./bulk-edits.ts";
+import {
+  formatPlan,
+  locatePlanIssues,
+  parsePlan,
+  planFileExtension,
+  planFormatFromPath,
+} from "./plan-formats.ts";
+import { createPlan } from "./planner.ts";
+import { RebaseSchema } from "./schema.ts";
+import type { CommitTransform, RebasePlan } from "./types.ts";
+import { fromZodError, PlanValidationError } from "./validation.ts";
+
+const HELP = "space select  * all  A author  C committer  d shift dates  " +
+  "r reword  e message  enter diff  w save  q quit";
+
+/**
+ * Edit a plan file in the TUI
+ * Returns true if it was saved, false if the user quit without saving
+ */
+export async function runTui(planPath: string): Promise<boolean> {
+  if (!Deno.stdin.isTerminal() || !Deno.stdout.isTerminal()) {
+    throw new Error("--tui needs a terminal");
+  }
+
+  const format = planFormatFromPath(planPath) ?? "yaml";
+  const source = await Deno.readTextFile(planPath);
+  const result = RebaseSchema.safeParse(parsePlan(source, format));
+  if (!result.success) {
+    throw new PlanValidationError(
+      locatePlanIssues(source, format, fromZodError(result.error)),
+    );
+  }
+  const plan: RebasePlan = result.data;
+
+  // Original commits, for the hash column, diffstats and git show
+  const originals = await Promise.all(
+    plan.commits.map((commit) =>
+      resolveCommitHash(commit.content.split(":")[1])
+    ),
+  );
+  const stats = await getShortStats(
+    originals.filter((hash): hash is string => hash !== null),
+  );
+
+  let cursor = 0;
+  let top = 0;
+  let changed = false;
+  let status = "";
+  let planError = "";
+  const selected = new Set<number>();
+  let actions: string[] = [];
+
+  // What the planner would do with each entry, as of the last edit
+  const refreshActions = async () => {
+    const scratch = await Deno.makeTempFile({
+      suffix: planFileExtension(format),
+    });
+    try {
+      await Deno.writeTextFile(scratch, formatPlan(plan, format));
+      actions = (await createPlan(scratch)).commits.map(({ action }) => action);
+      planError = "";
+    } catch (error) {
+      actions = [];
+      planError = error instanceof Error
+        ? error.message.split("\n").slice(0, 2).join(" ")
+        : String(error);
+    } finally {
+      await Deno.remove(scratch);
+    }
+  };
+
+  // Edits apply to the selection, or to the commit under the cursor
+  const targets = () =>
+    selected.size > 0 ? [...selected].sort((a, b) => a - b) : [cursor];
+
+  const apply = async (transform: CommitTransform) => {
+    const indices = targets();
+    const edited = await transform(indices.map((i) => plan.commits[i]));
+    indices.forEach((index, i) => {
+      plan.commits[index] = edited[i];
+    });
+    changed = true;
+    status = `Changed ${indices.length} commit${
+      indices.length === 1 ? "" : "s"
+    }`;
+    await refreshActions();
+  };
+
+  const askIdentity = async (label: string, current: string) => {
+    const identity = await promptLine(
+      `${label} (Name <email> or @alias): `,
+      current,
+    );
+    if (identity !== null && !identity.startsWith("@")) {
+      parseIdentity(identity);
+    }
+    return identity;
+  };
+
+  const draw = () => {
+    const { columns, rows } = screenSize();
+    const height = Math.max(1, rows - 3);
+    top = Math.min(Math.max(top, cursor - height + 1), cursor);
+
+    const lines = [
+      `git-rescribe: ${plan.commits.length} commits, ${selected.size} selected${
+        changed ? " (edited)" : ""
+      }`,
+    ];
+    for (let i = top; i < Math.min(top + height, plan.commits.length); i++) {
+      const commit = plan.commits[i];
+      const action = actions[i] === "reuse"
+        ? color("reuse ", "gray")
+        : actions[i] === "create"
+        ? color("modify", "yellow")
+        : "      ";
+      const hash = commit.content.split(":")[1].substring(0, 7).padEnd(7);
+      const author = truncate(
+        commit.author.identity.replace(/\s*<.*$/, ""),
+        16,
+      ).padEnd(16);
+      const stat = (originals[i] ? stats.get(originals[i]!) ?? "" : "")
+        .padStart(20);
+      const width = Math.max(10, columns - 7 - 7 - 16 - 20 - 8);
+      const subject = truncate(
+        commit.message.trimStart().split("\n")[0],
+        width,
+      ).padEnd(width);
+
+      const line = `${selected.has(i) ? "*" : " "} ${action} ${hash} ` +
+        `${subject} ${author} ${stat}`;
+      lines.push(i === cursor ? inverse(line) : line);
+    }
+    while (lines.length < rows - 2) {
+      lines.push("");
+    }
+    const message = status || planError;
+    lines.push(message ? color(truncate(message, columns), "red") : "");
+    lines.push(color(truncate(HELP, columns), "gray"));
+    drawScreen(lines);
+  };
+
+  await refreshActions();
+  enterFullScreen();
+  try {
+    while (true) {
+      draw();
+      const key = await readKey();
+      const last = plan.commits.length - 1;
+      const page = Math.max(1, screenSize().rows - 3);
+      status = "";
+
+      try {
+        switch (key) {
+          case "up":
+          case "k":
+            cursor = Math.max(0, cursor - 1);
+            break;
+          case "down":
+          case "j":
+            cursor = Math.min(last, cursor + 1);
+            break;
+          case "pageup":
+            cursor = Math.max(0, cursor - page);
+            break;
+          case "pagedown":
+            cursor = Math.min(last, cursor + page);
+            break;
+          case "home":
+            cursor = 0;
+            break;
+          case "end":
+            cursor = last;
+            break;
+
+          case "space":
+            if (selected.has(cursor)) {
+              selected.delete(cursor);
+            } else {
+              selected.add(cursor);
+            }
+            cursor = Math.min(last, cursor + 1);
+            break;
+          case "*":
+            if (selected.size === plan.commits.length) {
+              selected.clear();
+            } else {
+              plan.commits.forEach((_, i) => selected.add(i));
+            }
+            break;
+
+          case "A": {
+            const identity = await askIdentity(
+              "Author",
+              plan.commits[cursor].author.identity,
+            );
+            if (identity !== null) {
+              await apply(setAuthor(identity));
+            }
+            break;
+          }
+          case "C": {
+            const identity = await askIdentity(
+              "Committer",
+              plan.commits[cursor].committer.identity,
+            );
+            if (identity !== null) {
+              await apply((commits) =>
+                commits.map((commit) => ({
+                  ...commit,
+                  committer: { ...commit.committer, identity },
+                }))
+              );
+            }
+            break;
+          }
+          case "d": {
+            const duration = await promptLine(
+              "Shift dates by (like +2h or -1d): ",
+            );
+            if (duration === null) {
+              break;
+            }
+            const seconds = parseDuration(duration);
+            if (seconds === null) {
+              throw new Error(`Invalid duration '${duration}'. Use +2h or -1d`);
+            }
+            await apply(shiftDates(seconds));
+            break;
+          }
+          case "r": {
+            const expression = await promptLine(
+              "Reword (s/pattern/replacement/): ",
+              "s/",
+            );
+            if (expression !== null) {
+              await apply(reword(expression));
+            }
+            break;
+          }
+
+          case "e": {
+            const file = await Deno.makeTempFile({ suffix: ".txt" });
+            try {
+              await Deno.writeTextFile(
+                file,
+                `${plan.commits[cursor].message}\n`,
+              );
+              await withNormalScreen(() => openEditor(file));
+              const message = (await Deno.readTextFile(file)).replace(
+                /\n$/,
+                "",
+              );
+              plan.commits[cursor] = { ...plan.commits[cursor], message };
+              changed = true;
+              await refreshActions();
+            } finally {
+              await Deno.remove(file);
+            }
+            break;
+          }
+          case "enter":
+            if (!originals[cursor]) {
+              throw new Error("This entry has no original commit to show");
+            }
+            await withNormalScreen(() => showCommit(originals[cursor]!));
+            break;
+
+          case "w":
+            await Deno.writeTextFile(planPath, formatPlan(plan, format));
+            return true;
+          case "q":
+          case "ctrl-c": {
+            if (!changed) {
+              return false;
+            }
+            const answer = await promptLine("Quit without saving? [y/N] ");
+            if (answer !== null && /^y/i.test(answer.trim())) {
+              return false;
+            }
+            break;
+          }
+        }
+      } catch (error) {
+        status = error instanceof Error ? error.message : String(error);
+      }
+    }
+  } finally {
+    leaveFullScreen();
+  }
+}
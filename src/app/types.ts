@@ -3,18 +3,33 @@
  */
 
 export interface Identity {
-  date: string;
-  identity: string; // "Name <email@example.com>"
+  date: string; // ISO 8601 | "now" | "same-as-author" | "+15m"
+  identity: string; // "Name <email@example.com>" | "@alias"
+  timezone?: string; // "Europe/Berlin" - same instant, different offset
 }
 
 export interface RescribeCommit {
   author: Identity;
+  branches?: string[]; // ["feat-a"] - branches whose tip this entry becomes
+  coauthors?: string[]; // ["Name <email@example.com>" | "@alias"] - Co-authored-by trailers
   committer: Identity;
-  content: string; // "tree:abc123" | "diff:abc123" | "commit:abc123"
+  content: string; // "tree:abc123" | "diff:abc123" | "commit:abc123" | "split:abc123"
   message: string;
   parents: string[]; // ["previous"] | ["abc1234"] | ["rewritten:abc1234"]
+  paths?: string[]; // ["src/"] - part of a "split:" commit taken by this entry
+  squash?: string[]; // ["def5678"] - original commits folded into this one
 }
 
 export interface RebasePlan {
+  identities?: Record<string, string>; // { me: "Name <email@example.com>" }
   commits: RescribeCommit[];
 }
+
+// Exported by --transform modules, as the default export or as "transform"
+export type CommitTransform = (
+  commits: RescribeCommit[],
+) => RescribeCommit[] | Promise<RescribeCommit[]>;
+
+// Where progress messages go: console.log, or console.error when stdout is
+// kept for machine-readable output (--format json)
+export type Log = (message: string) => void;
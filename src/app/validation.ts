@@ -0,0 +1,204 @@
+/**
+ * Validation errors for rescribe YAML files
+ * Maps problems back to YAML lines, so they can be shown next to the edits
+ */
+
+import {
+  isMap,
+  isSeq,
+  LineCounter,
+  type Node,
+  parseDocument,
+} from "npm:yaml@2.3.4";
+import type { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { truncate } from "../lib/string.ts";
+
+// Comment lines added to the top of the file by annotateWithIssues
+const ISSUE_COMMENT_PREFIX = "# rescribe error: ";
+
+/**
+ * A single problem with the YAML
+ */
+export interface PlanIssue {
+  path: (string | number)[]; // ["commits", 2, "author", "identity"]
+  message: string;
+  line?: number; // 1-based
+  column?: number; // 1-based
+  subject?: string; // Subject of the commit the problem is in
+}
+
+/**
+ * Error for a YAML file that can't be turned into a plan
+ */
+export class PlanValidationError extends Error {
+  constructor(
+    readonly issues: PlanIssue[],
+    heading = "Invalid rescribe file",
+  ) {
+    super(`${heading}:\n${issues.map(formatIssue).join("\n")}`);
+    this.name = "PlanValidationError";
+  }
+}
+
+/**
+ * Parse YAML, reporting syntax errors with their location
+ */
+export function parseYamlDocument(source: string): unknown {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(source, { lineCounter });
+
+  if (document.errors.length > 0) {
+    throw new PlanValidationError(
+      document.errors.map((error) => ({
+        path: [],
+        message: error.message.split("\n")[0],
+        line: error.linePos?.[0].line,
+        column: error.linePos?.[0].col,
+      })),
+    );
+  }
+
+  return document.toJS();
+}
+
+/**
+ * Convert Zod issues to plan issues, one per unknown key
+ */
+export function fromZodError(error: z.ZodError): PlanIssue[] {
+  return error.issues.flatMap((issue) => {
+    if (issue.code === "unrecognized_keys") {
+      return issue.keys.map((key) => ({
+        path: [...issue.path, key],
+        message: `Unknown key "${key}"`,
+      }));
+    }
+    return [{ path: issue.path, message: issue.message }];
+  });
+}
+
+/**
+ * Fill in line, column and commit subject for each issue
+ */
+export function locateIssues(source: string, issues: PlanIssue[]): PlanIssue[] {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(source, { lineCounter });
+
+  const located = issues.map((issue) => {
+    if (issue.line !== undefined) {
+      return issue;
+    }
+    const offset = findOffset(document.contents, issue.path);
+    if (offset === null) {
+      return issue;
+    }
+    const { line, col } = lineCounter.linePos(offset);
+    return { ...issue, line, column: col };
+  });
+
+  return describeIssues(document.toJS(), located);
+}
+
+/**
+ * Fill in the subject of the commit each issue is in, from the parsed plan
+ */
+export function describeIssues(
+  data: unknown,
+  issues: PlanIssue[],
+): PlanIssue[] {
+  const commits = (data as { commits?: { message?: unknown }[] } | null)
+    ?.commits;
+
+  return issues.map((issue) => {
+    const [section, index] = issue.path;
+    const message = section === "commits" && typeof index === "number" &&
+        Array.isArray(commits)
+      ? commits[index]?.message
+      : undefined;
+    if (typeof message !== "string") {
+      return issue;
+    }
+    return {
+      ...issue,
+      subject: truncate(message.trimStart().split("\n")[0], 60),
+    };
+  });
+}
+
+/**
+ * Add issues as comments at the top of the file, replacing earlier ones
+ */
+export function annotateWithIssues(
+  source: string,
+  issues: PlanIssue[],
+): string {
+  const lines = source.split("\n");
+  let removed = 0;
+  while (lines.length > 0 && lines[0].startsWith(ISSUE_COMMENT_PREFIX)) {
+    lines.shift();
+    removed++;
+  }
+
+  // Swapping the comments moves every line, so fix up the line numbers
+  const shift = issues.length - removed;
+  const comments = issues.map((issue) =>
+    ISSUE_COMMENT_PREFIX + formatIssue(
+      issue.line === undefined ? issue : { ...issue, line: issue.line + shift },
+    ).trim()
+  );
+
+  return [...comments, ...lines].join("\n");
+}
+
+/**
+ * Format an issue as "  line 12, col 7: commits[2].author.identity: ..."
+ */
+export function formatIssue(issue: PlanIssue): string {
+  const location = issue.line !== undefined
+    ? `line ${issue.line}, col ${issue.column}: `
+    : "";
+  const path = issue.path.length > 0
+    ? `${
+      issue.path.map((part) =>
+        typeof part === "number" ? `[${part}]` : `.${part}`
+      ).join("").replace(/^\./, "")
+    }: `
+    : "";
+  const subject = issue.subject ? ` (in "${issue.subject}")` : "";
+  return `  ${location}${path}${issue.message}${subject}`;
+}
+
+/**
+ * Find the source offset for a path, falling back to the closest parent
+ * For map keys, points at the key itself
+ */
+function findOffset(
+  root: unknown,
+  path: (string | number)[],
+): number | null {
+  let node = root as Node | null;
+  let offset = node?.range?.[0] ?? null;
+
+  for (const part of path) {
+    if (isMap(node)) {
+      const pair = node.items.find((item) =>
+        (item.key as { value?: unknown } | null)?.value === part
+      );
+      if (!pair) {
+        break;
+      }
+      offset = (pair.key as Node).range?.[0] ?? offset;
+      node = pair.value as Node | null;
+    } else if (isSeq(node) && typeof part === "number") {
+      const item = node.items[part] as Node | undefined;
+      if (!item) {
+        break;
+      }
+      offset = item.range?.[0] ?? offset;
+      node = item;
+    } else {
+      break;
+    }
+  }
+
+  return offset;
+}
@@ -1,18 +1,31 @@
 /**
- * YAML formatting with Prettier
+ * YAML formatting in Prettier's style
+ * The layout is written out directly, since running Prettier itself takes
+ * minutes on histories with thousands of commits
  * Could be published as: @std/yaml-format or deno.land/x/yaml-pretty
  */
 
-import * as prettier from "npm:prettier@3.1.0";
 import type { RebasePlan } from "./types.ts";
 
+// Longest line before a list is written one item per line, like Prettier
+const PRINT_WIDTH = 80;
+
 /**
  * Convert a RebasePlan to formatted YAML string
  */
-export async function formatYaml(data: RebasePlan): Promise<string> {
+export function formatYaml(data: RebasePlan): string {
   // Manually construct YAML with our preferred format
   const lines: string[] = [];
 
+  const aliases = Object.entries(data.identities ?? {});
+  if (aliases.length > 0) {
+    lines.push("identities:");
+    for (const [alias, identity] of aliases) {
+      lines.push(`  ${alias}: ${JSON.stringify(identity)}`);
+    }
+    lines.push("");
+  }
+
   lines.push("commits:");
 
   for (let i = 0; i < data.commits.length; i++) {
@@ -26,28 +39,83 @@ export async function formatYaml(data: RebasePlan): Promise<string> {
     lines.push("  - author:");
     lines.push(`      date: ${JSON.stringify(commit.author.date)}`);
     lines.push(`      identity: ${JSON.stringify(commit.author.identity)}`);
+    if (commit.author.timezone) {
+      lines.push(`      timezone: ${JSON.stringify(commit.author.timezone)}`);
+    }
+    if (commit.branches && commit.branches.length > 0) {
+      lines.push(...formatList("branches", commit.branches));
+    }
+    if (commit.coauthors && commit.coauthors.length > 0) {
+      lines.push("    coauthors:");
+      for (const coauthor of commit.coauthors) {
+        lines.push(`      - ${JSON.stringify(coauthor)}`);
+      }
+    }
     lines.push("    committer:");
     lines.push(`      date: ${JSON.stringify(commit.committer.date)}`);
     lines.push(`      identity: ${JSON.stringify(commit.committer.identity)}`);
+    if (commit.committer.timezone) {
+      lines.push(
+        `      timezone: ${JSON.stringify(commit.committer.timezone)}`,
+      );
+    }
     lines.push(`    content: ${JSON.stringify(commit.content)}`);
 
-    // Use |- format for all messages
-    lines.push("    message: |-");
-    const messageLines = commit.message.split("\n");
-    for (const msgLine of messageLines) {
-      lines.push(`      ${msgLine}`);
+    lines.push(...formatMessage(commit.message));
+
+    lines.push(...formatList("parents", commit.parents));
+
+    if (commit.paths && commit.paths.length > 0) {
+      lines.push(...formatList("paths", commit.paths));
     }
 
-    lines.push(`    parents: ${JSON.stringify(commit.parents)}`);
+    if (commit.squash && commit.squash.length > 0) {
+      lines.push(...formatList("squash", commit.squash));
+    }
   }
 
-  const yaml = lines.join("\n") + "\n";
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Format a list of strings as ["a", "b"], or one item per line if too long
+ */
+function formatList(key: string, items: string[]): string[] {
+  const line = `    ${key}: [${
+    items.map((item) => JSON.stringify(item)).join(", ")
+  }]`;
+  if (line.length <= PRINT_WIDTH) {
+    return [line];
+  }
+  return [
+    `    ${key}:`,
+    ...items.map((item) => `      - ${JSON.stringify(item)}`),
+  ];
+}
+
+/**
+ * Format a message so it reads back exactly, byte for byte
+ * Uses a |- block for ordinary messages, and adjusts it for leading spaces
+ * and trailing newlines; messages with control characters or trailing
+ * whitespace (which blocks can't keep) are quoted
+ */
+function formatMessage(message: string): string[] {
+  if (
+    // deno-lint-ignore no-control-regex
+    /[\x00-\x08\x0b-\x1f\x7f\u0085\u2028\u2029\ufeff]/.test(message) ||
+    /[ \t]$/m.test(message)
+  ) {
+    return [`    message: ${JSON.stringify(message)}`];
+  }
 
-  // Run through Prettier for final formatting
-  const formatted = await prettier.format(yaml, {
-    parser: "yaml",
-    printWidth: 80,
-  });
+  // "|+" keeps trailing newlines, and "2" stops a leading space from being
+  // taken as indentation
+  const keepNewlines = message.endsWith("\n");
+  const indent = /^\n*[ ]/.test(message) ? "2" : "";
+  const body = keepNewlines ? message.slice(0, -1) : message;
 
-  return formatted;
+  return [
+    `    message: |${indent}${keepNewlines ? "+" : "-"}`,
+    ...body.split("\n").map((line) => line === "" ? "" : `      ${line}`),
+  ];
 }
@@ -0,0 +1,199 @@
+/**
+ * Parse and serialize raw git commit objects without losing a byte
+ * Could be published as: @std/git-object or deno.land/x/git-commit-object
+ *
+ * Text is kept as "binary strings" (one character per byte), because
+ * messages and identities are in the commit's encoding, which may not be
+ * UTF-8. Use decodeCommitText to read them.
+ */
+
+import { type GitDate, parseIsoDate } from "./date.ts";
+
+/**
+ * A commit object, as stored by git
+ */
+export interface RawCommit {
+  tree: string;
+  parents: string[];
+  author: string; // "Name <email> 1700000000 +0100"
+  committer: string;
+  encoding: string | null; // Only set for messages that aren't UTF-8
+  headers: { key: string; value: string }[]; // mergetag, gpgsig, ... in order
+  message: string; // Exact message, including the final newline
+}
+
+/**
+ * A parsed author or committer line
+ */
+export interface Person {
+  name: string;
+  email: string;
+  date: GitDate;
+}
+
+/**
+ * Parse the bytes of a commit object (as printed by git cat-file commit)
+ */
+export function parseCommitObject(bytes: Uint8Array): RawCommit {
+  const text = toBinaryString(bytes);
+  const headerEnd = text.indexOf("\n\n");
+  const [header, message] = headerEnd === -1
+    ? [text.replace(/\n$/, ""), ""]
+    : [text.substring(0, headerEnd), text.substring(headerEnd + 2)];
+
+  const commit: RawCommit = {
+    tree: "",
+    parents: [],
+    author: "",
+    committer: "",
+    encoding: null,
+    headers: [],
+    message,
+  };
+
+  // Lines starting with a space continue the previous header
+  const fields: { key: string; value: string }[] = [];
+  for (const line of header.split("\n")) {
+    if (line.startsWith(" ") && fields.length > 0) {
+      fields[fields.length - 1].value += `\n${line.substring(1)}`;
+      continue;
+    }
+    const space = line.indexOf(" ");
+    fields.push(
+      space === -1
+        ? { key: line, value: "" }
+        : { key: line.substring(0, space), value: line.substring(space + 1) },
+    );
+  }
+
+  for (const { key, value } of fields) {
+    if (key === "tree") {
+      commit.tree = value;
+    } else if (key === "parent") {
+      commit.parents.push(value);
+    } else if (key === "author") {
+      commit.author = value;
+    } else if (key === "committer") {
+      commit.committer = value;
+    } else if (key === "encoding") {
+      commit.encoding = value;
+    } else {
+      commit.headers.push({ key, value });
+    }
+  }
+
+  return commit;
+}
+
+/**
+ * Serialize a commit object, for git hash-object -t commit
+ */
+export function serializeCommitObject(commit: RawCommit): Uint8Array {
+  const lines = [`tree ${commit.tree}`];
+  for (const parent of commit.parents) {
+    lines.push(`parent ${parent}`);
+  }
+  lines.push(`author ${commit.author}`);
+  lines.push(`committer ${commit.committer}`);
+  if (commit.encoding) {
+    lines.push(`encoding ${commit.encoding}`);
+  }
+  for (const { key, value } of commit.headers) {
+    lines.push(`${key} ${value.replaceAll("\n", "\n ")}`);
+  }
+
+  return fromBinaryString(`${lines.join("\n")}\n\n${commit.message}`);
+}
+
+/**
+ * Parse an author or committer line
+ * Returns null if it is malformed
+ */
+export function parsePerson(line: string): Person | null {
+  const match = line.match(/^(.*?) ?<([^>]*)> (\d+) ([+-])(\d\d)(\d\d)$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, name, email, timestamp, sign, hours, minutes] = match;
+  return {
+    name,
+    email,
+    date: {
+      timestamp: Number(timestamp),
+      offset: (sign === "-" ? -1 : 1) * (Number(hours) * 60 + Number(minutes)),
+    },
+  };
+}
+
+/**
+ * Format an author or committer line
+ */
+export function formatPerson(person: Person): string {
+  const { offset } = person.date;
+  const absolute = Math.abs(offset);
+  const zone = `${offset < 0 ? "-" : "+"}${
+    String(Math.floor(absolute / 60)).padStart(2, "0")
+  }${String(absolute % 60).padStart(2, "0")}`;
+  return `${person.name} <${person.email}> ${person.date.timestamp} ${zone}`;
+}
+
+/**
+ * Format an author or committer line from an identity and an ISO date
+ * Text is encoded as UTF-8
+ */
+export function formatPersonIso(
+  name: string,
+  email: string,
+  isoDate: string,
+): string {
+  const date = parseIsoDate(isoDate);
+  if (!date) {
+    throw new Error(`Invalid date: ${isoDate}`);
+  }
+  return formatPerson({
+    name: encodeCommitText(name),
+    email: encodeCommitText(email),
+    date,
+  });
+}
+
+/**
+ * Decode text from a commit in its encoding, falling back to UTF-8
+ */
+export function decodeCommitText(
+  text: string,
+  encoding: string | null,
+): string {
+  const bytes = fromBinaryString(text);
+  try {
+    return new TextDecoder(encoding ?? "utf-8").decode(bytes);
+  } catch {
+    return new TextDecoder().decode(bytes);
+  }
+}
+
+/**
+ * Encode text as UTF-8, for use in a commit
+ */
+export function encodeCommitText(text: string): string {
+  return toBinaryString(new TextEncoder().encode(text));
+}
+
+/**
+ * Bytes to a string with one character per byte
+ */
+function toBinaryString(bytes: Uint8Array): string {
+  let text = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return text;
+}
+
+/**
+ * A string with one character per byte back to bytes
+ */
+function fromBinaryString(text: string): Uint8Array {
+  return Uint8Array.from(text, (char) => char.charCodeAt(0));
+}
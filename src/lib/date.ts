@@ -0,0 +1,123 @@
+/**
+ * Date utilities for git-style dates (a timestamp plus a UTC offset)
+ * Could be published as: @std/git-date or deno.land/x/git-date
+ */
+
+export interface GitDate {
+  timestamp: number; // Seconds since the epoch
+  offset: number; // Minutes east of UTC
+}
+
+const ISO_DATE =
+  /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})(Z|([+-])(\d{2}):?(\d{2}))$/;
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+  w: 7 * 24 * 60 * 60,
+};
+
+/**
+ * Parse a strict ISO 8601 date with a UTC offset, like git's %aI
+ * Returns null for anything else
+ */
+export function parseIsoDate(date: string): GitDate | null {
+  const match = date.match(ISO_DATE);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second, zone, sign, oh, om] = match;
+  const offset = zone === "Z"
+    ? 0
+    : (sign === "-" ? -1 : 1) * (Number(oh) * 60 + Number(om));
+  const local = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour),
+    Number(minute),
+    Number(second),
+  );
+
+  return { timestamp: local / 1000 - offset * 60, offset };
+}
+
+/**
+ * Format a date as strict ISO 8601, like git's %aI
+ */
+export function formatIsoDate(date: GitDate): string {
+  const local = new Date((date.timestamp + date.offset * 60) * 1000);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const sign = date.offset < 0 ? "-" : "+";
+  const absolute = Math.abs(date.offset);
+
+  return `${local.getUTCFullYear()}-${pad(local.getUTCMonth() + 1)}-${
+    pad(local.getUTCDate())
+  }T${pad(local.getUTCHours())}:${pad(local.getUTCMinutes())}:${
+    pad(local.getUTCSeconds())
+  }${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+}
+
+/**
+ * Parse a relative duration like "+15m", "-2h" or "+1d12h" into seconds
+ * Returns null for anything else
+ */
+export function parseDuration(duration: string): number | null {
+  const match = duration.match(/^([+-])((?:\d+[smhdw])+)$/);
+  if (!match) {
+    return null;
+  }
+
+  let seconds = 0;
+  for (const [, amount, unit] of match[2].matchAll(/(\d+)([smhdw])/g)) {
+    seconds += Number(amount) * DURATION_UNITS[unit];
+  }
+  return match[1] === "-" ? -seconds : seconds;
+}
+
+/**
+ * The current time, in the local timezone
+ */
+export function now(): GitDate {
+  const date = new Date();
+  return {
+    timestamp: Math.floor(date.getTime() / 1000),
+    offset: -date.getTimezoneOffset(),
+  };
+}
+
+/**
+ * Express the same instant in a named timezone (e.g. "Europe/Berlin")
+ * Throws a RangeError for unknown timezones
+ */
+export function toTimeZone(date: GitDate, timeZone: string): GitDate {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(date.timestamp * 1000));
+
+  const part = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  const local = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second"),
+  );
+
+  return {
+    timestamp: date.timestamp,
+    offset: Math.round((local / 1000 - date.timestamp) / 60),
+  };
+}
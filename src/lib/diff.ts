@@ -0,0 +1,53 @@
+/**
+ * Line diffs for short texts
+ * Could be published as: @std/line-diff or deno.land/x/line-diff
+ */
+
+/**
+ * A line of a diff: kept, removed from the old text, or added in the new one
+ */
+export interface DiffLine {
+  kind: "same" | "removed" | "added";
+  text: string;
+}
+
+/**
+ * Diff two lists of lines along their longest common subsequence
+ * Takes time proportional to the product of their lengths, which is fine for
+ * commit messages but not for whole files
+ */
+export function diffLines(before: string[], after: string[]): DiffLine[] {
+  // common[i][j] = length of the LCS of before[i..] and after[j..]
+  const common = Array.from(
+    { length: before.length + 1 },
+    () => new Array<number>(after.length + 1).fill(0),
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      common[i][j] = before[i] === after[j]
+        ? common[i + 1][j + 1] + 1
+        : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      lines.push({ kind: "same", text: before[i] });
+      i++;
+      j++;
+    } else if (
+      j >= after.length ||
+      (i < before.length && common[i + 1][j] >= common[i][j + 1])
+    ) {
+      lines.push({ kind: "removed", text: before[i] });
+      i++;
+    } else {
+      lines.push({ kind: "added", text: after[j] });
+      j++;
+    }
+  }
+  return lines;
+}
@@ -3,49 +3,293 @@
  * Could be published as: @std/git or deno.land/x/git-utils
  */
 
+import {
+  decodeCommitText,
+  parseCommitObject,
+  parsePerson,
+  type RawCommit,
+  serializeCommitObject,
+} from "./commit-object.ts";
+import { formatIsoDate } from "./date.ts";
+import {
+  buildPack,
+  hashObject,
+  type ObjectFormat,
+  type PackObject,
+} from "./pack.ts";
+
 /**
  * Get full commit information from git
+ * The message is exact (decoded from the commit's encoding), except for the
+ * final newline git adds; raw has the commit object as stored
  */
 export async function getCommitInfo(hash: string) {
-  const command = new Deno.Command("git", {
-    args: [
-      "show",
-      "--format=%an%n%ae%n%aI%n%cn%n%ce%n%cI%n%T%n%P%n%B",
-      "--no-patch",
-      hash,
-    ],
-    stdout: "piped",
-  });
-
-  const { stdout } = await command.output();
-  const output = new TextDecoder().decode(stdout);
-  const lines = output.trim().split("\n");
-
-  const [
-    authorName,
-    authorEmail,
-    authorDate,
-    committerName,
-    committerEmail,
-    committerDate,
-    tree,
-    parentsLine,
-    ...messageLines
-  ] = lines;
+  const raw = await readCommit(hash);
+  const author = parsePerson(raw.author);
+  const committer = parsePerson(raw.committer);
+  if (!author || !committer) {
+    throw new Error(`Commit ${hash} has a malformed author or committer`);
+  }
 
   return {
-    authorName,
-    authorEmail,
-    authorDate,
-    committerName,
-    committerEmail,
-    committerDate,
-    tree,
-    parents: parentsLine ? parentsLine.split(" ") : [],
-    message: messageLines.join("\n").trim(),
+    authorName: decodeCommitText(author.name, raw.encoding),
+    authorEmail: decodeCommitText(author.email, raw.encoding),
+    authorDate: formatIsoDate(author.date),
+    committerName: decodeCommitText(committer.name, raw.encoding),
+    committerEmail: decodeCommitText(committer.email, raw.encoding),
+    committerDate: formatIsoDate(committer.date),
+    tree: raw.tree,
+    parents: raw.parents,
+    message: decodeCommitText(raw.message, raw.encoding).replace(/\n$/, ""),
+    raw,
   };
 }
 
+/**
+ * An object read with git cat-file --batch
+ */
+interface GitObject {
+  oid: string; // Full object id
+  type: string; // "commit" | "tree" | "blob" | "tag"
+  content: Uint8Array;
+}
+
+/**
+ * A long-lived git cat-file --batch process, shared by every read
+ * Requests are answered one at a time, in order
+ */
+class CatFileBatch {
+  #process: Deno.ChildProcess;
+  #writer: WritableStreamDefaultWriter<Uint8Array>;
+  #reader: ReadableStreamDefaultReader<Uint8Array>;
+  #buffer = new Uint8Array(0);
+  #queue: Promise<unknown> = Promise.resolve();
+
+  constructor() {
+    this.#process = new Deno.Command("git", {
+      args: ["cat-file", "--batch"],
+      stdin: "piped",
+      stdout: "piped",
+      stderr: "inherit",
+    }).spawn();
+    this.#writer = this.#process.stdin.getWriter();
+    this.#reader = this.#process.stdout.getReader();
+  }
+
+  /**
+   * Read an object by name (a hash, possibly abbreviated, or "abc123^{tree}")
+   * Returns null for missing or ambiguous names
+   */
+  read(name: string): Promise<GitObject | null> {
+    const result = this.#queue.then(() => this.#request(name));
+    this.#queue = result.catch(() => {});
+    return result;
+  }
+
+  /**
+   * Stop the process once every request has been answered
+   */
+  async close(): Promise<void> {
+    await this.#queue;
+    await this.#writer.close();
+    await this.#reader.cancel();
+    await this.#process.status;
+  }
+
+  async #request(name: string): Promise<GitObject | null> {
+    await this.#writer.write(new TextEncoder().encode(`${name}\n`));
+
+    // "<oid> <type> <size>", or "<name> missing" / "<name> ambiguous"
+    const header = new TextDecoder().decode(await this.#readLine());
+    const match = header.match(/^([0-9a-f]+) (\w+) (\d+)$/);
+    if (!match) {
+      return null;
+    }
+
+    // The content is followed by a newline
+    const content = await this.#readBytes(Number(match[3]) + 1);
+    return { oid: match[1], type: match[2], content: content.subarray(0, -1) };
+  }
+
+  async #readLine(): Promise<Uint8Array> {
+    let end = this.#buffer.indexOf(10);
+    while (end === -1) {
+      await this.#fill();
+      end = this.#buffer.indexOf(10);
+    }
+    const line = this.#buffer.subarray(0, end);
+    this.#buffer = this.#buffer.subarray(end + 1);
+    return line;
+  }
+
+  async #readBytes(length: number): Promise<Uint8Array> {
+    while (this.#buffer.length < length) {
+      await this.#fill();
+    }
+    const bytes = this.#buffer.subarray(0, length);
+    this.#buffer = this.#buffer.subarray(length);
+    return bytes;
+  }
+
+  async #fill(): Promise<void> {
+    const { value, done } = await this.#reader.read();
+    if (done) {
+      throw new Error("git cat-file --batch exited unexpectedly");
+    }
+    const buffer = new Uint8Array(this.#buffer.length + value.length);
+    buffer.set(this.#buffer);
+    buffer.set(value, this.#buffer.length);
+    this.#buffer = buffer;
+  }
+}
+
+let catFileBatch: CatFileBatch | null = null;
+
+// Commits from queueCommit that haven't been written yet, with the ids
+// worked out for them
+let queuedObjects: { object: PackObject; id: string }[] = [];
+
+let objectFormat: ObjectFormat | null = null;
+
+/**
+ * Read an object through the shared git cat-file --batch process
+ * Returns null if there is no such object
+ */
+export async function readObject(name: string): Promise<GitObject | null> {
+  catFileBatch ??= new CatFileBatch();
+  return await catFileBatch.read(name);
+}
+
+/**
+ * Stop the shared git cat-file --batch process, if it was started
+ * Call before exiting, after the last read
+ */
+export async function closeObjectReader(): Promise<void> {
+  const batch = catFileBatch;
+  catFileBatch = null;
+  await batch?.close();
+}
+
+/**
+ * Read a commit object
+ */
+export async function readCommit(hash: string): Promise<RawCommit> {
+  const object = await readObject(`${hash}^{commit}`);
+  if (!object) {
+    throw new Error(`Unknown commit ${hash}`);
+  }
+  return parseCommitObject(object.content);
+}
+
+/**
+ * Resolve a commit name (e.g. an abbreviated hash) to its full hash
+ * Returns null if it doesn't name a commit
+ */
+export async function resolveCommitHash(name: string): Promise<string | null> {
+  return (await readObject(`${name}^{commit}`))?.oid ?? null;
+}
+
+/**
+ * Queue a commit object to be written exactly as given
+ * Returns its hash right away; it is only stored by flushObjects()
+ */
+export async function queueCommit(commit: RawCommit): Promise<string> {
+  const object: PackObject = {
+    type: "commit",
+    content: serializeCommitObject(commit),
+  };
+  const id = await hashObject(object, await getObjectFormat());
+  queuedObjects.push({ object, id });
+  return id;
+}
+
+/**
+ * Number of objects queued but not written yet
+ */
+export function countQueuedObjects(): number {
+  return queuedObjects.length;
+}
+
+/**
+ * Write every queued object, as one pack, with git index-pack
+ */
+export async function flushObjects(): Promise<void> {
+  if (queuedObjects.length === 0) {
+    return;
+  }
+
+  const pack = await buildPack(
+    queuedObjects.map(({ object }) => object),
+    await getObjectFormat(),
+  );
+  const process = new Deno.Command("git", {
+    args: ["index-pack", "--stdin"],
+    stdin: "piped",
+    stdout: "null",
+    stderr: "piped",
+  }).spawn();
+  const writer = process.stdin.getWriter();
+  await writer.write(pack);
+  await writer.close();
+
+  const { code, stderr } = await process.output();
+  if (code !== 0) {
+    throw new Error(
+      `git index-pack failed: ${new TextDecoder().decode(stderr).trim()}`,
+    );
+  }
+
+  // index-pack names objects after their content, so an id worked out here
+  // that git disagrees with is missing now (and later commits that use it
+  // as a parent would point at nothing)
+  const [missing] = await findMissingObjects(
+    queuedObjects.map(({ id }) => id),
+  );
+  if (missing) {
+    throw new Error(
+      `git stored a commit under a different id than ${missing}, ` +
+        "so no refs were moved. Please report this as a bug.",
+    );
+  }
+  queuedObjects = [];
+}
+
+/**
+ * List the objects that don't exist in the repository
+ */
+async function findMissingObjects(ids: string[]): Promise<string[]> {
+  const process = new Deno.Command("git", {
+    args: ["cat-file", "--batch-check=%(objectname)"],
+    stdin: "piped",
+    stdout: "piped",
+  }).spawn();
+  const writer = process.stdin.getWriter();
+  await writer.write(new TextEncoder().encode(ids.join("\n") + "\n"));
+  await writer.close();
+
+  const { stdout } = await process.output();
+  return new TextDecoder().decode(stdout).split("\n")
+    .filter((line) => line.endsWith(" missing"))
+    .map((line) => line.substring(0, line.length - " missing".length));
+}
+
+/**
+ * Get the repository's object format ("sha1" or "sha256")
+ */
+async function getObjectFormat(): Promise<ObjectFormat> {
+  if (!objectFormat) {
+    const command = new Deno.Command("git", {
+      args: ["rev-parse", "--show-object-format"],
+      stdout: "piped",
+    });
+    const { stdout } = await command.output();
+    objectFormat = new TextDecoder().decode(stdout).trim() === "sha256"
+      ? "sha256"
+      : "sha1";
+  }
+  return objectFormat;
+}
+
 /**
  * Parse identity string "Name <email@example.com>"
  */
@@ -71,6 +315,7 @@ export function formatIdentity(name: string, email: string): string {
 
 /**
  * Create a commit using git commit-tree
+ * With sign, the commit is signed with user.signingKey in gpg.format
  */
 export async function createCommit(options: {
   tree: string;
@@ -78,8 +323,9 @@ export async function createCommit(options: {
   author: { identity: string; date: string };
   committer: { identity: string; date: string };
   message: string;
+  sign?: boolean;
 }): Promise<string> {
-  const { tree, parents, author, committer, message } = options;
+  const { tree, parents, author, committer, message, sign = false } = options;
 
   // Build args for git commit-tree
   const args = [tree];
@@ -87,6 +333,9 @@ export async function createCommit(options: {
     args.push("-p", parent);
   }
   args.push("-m", message);
+  if (sign) {
+    args.push("-S");
+  }
 
   const command = new Deno.Command("git", {
     args: ["commit-tree", ...args],
@@ -100,34 +349,72 @@ export async function createCommit(options: {
       GIT_COMMITTER_DATE: committer.date,
     },
     stdout: "piped",
+    stderr: "piped",
   });
 
-  const { stdout } = await command.output();
+  const { code, stdout, stderr } = await command.output();
+  if (code !== 0) {
+    throw new Error(
+      `git commit-tree failed: ${new TextDecoder().decode(stderr).trim()}`,
+    );
+  }
   return new TextDecoder().decode(stdout).trim();
 }
 
 /**
  * Update current branch to point to a new commit
+ * On a detached HEAD, moves HEAD itself
+ * The reflog message describes the change (e.g. "rescribe: rewrite 5 commits")
+ * With oldValue, refuses to move a branch that no longer points there
  */
-export async function updateCurrentBranch(commitHash: string): Promise<void> {
-  // Get current branch name
-  const branch = await getCurrentBranch();
+export async function updateCurrentBranch(
+  commitHash: string,
+  message?: string,
+  oldValue?: string,
+): Promise<void> {
+  // Get current branch ref, or HEAD if detached
+  const ref = await getCurrentRef();
 
   // Update branch ref
   const updateRef = new Deno.Command("git", {
-    args: ["update-ref", `refs/heads/${branch}`, commitHash],
+    args: [
+      "update-ref",
+      "--no-deref",
+      ...(message ? ["-m", message] : []),
+      ref,
+      commitHash,
+      ...(oldValue ? [oldValue] : []),
+    ],
     stdout: "inherit",
-    stderr: "inherit",
+    stderr: "piped",
   });
-  await updateRef.output();
+  const updated = await updateRef.output();
+  if (updated.code !== 0) {
+    throw new Error(
+      `Failed to update ${ref}: ${
+        new TextDecoder().decode(updated.stderr).trim()
+      }`,
+    );
+  }
 
   // Reset working tree to match
   const reset = new Deno.Command("git", {
     args: ["reset", "--hard", commitHash],
-    stdout: "inherit",
-    stderr: "inherit",
+    env: message
+      ? { ...Deno.env.toObject(), GIT_REFLOG_ACTION: message }
+      : undefined,
+    stdout: "piped",
+    stderr: "piped",
   });
-  await reset.output();
+  // "HEAD is now at ..." is a progress message, so it goes to stderr
+  const { code, stdout, stderr } = await reset.output();
+  await Deno.stderr.write(stdout);
+  if (code !== 0) {
+    throw new Error(
+      `${ref} was moved to ${commitHash}, but the working tree could not ` +
+        `be reset to it: ${new TextDecoder().decode(stderr).trim()}`,
+    );
+  }
 }
 
 /**
@@ -143,11 +430,14 @@ export async function getCurrentBranch(): Promise<string> {
 }
 
 /**
- * Count commits in a ref or range
+ * Count commits in a ref or range, or in several revisions together
+ * (like ["HEAD", "feat", "^main"])
  */
-export async function countCommits(ref: string = "HEAD"): Promise<number> {
+export async function countCommits(
+  ref: string | string[] = "HEAD",
+): Promise<number> {
   const command = new Deno.Command("git", {
-    args: ["rev-list", "--count", ref],
+    args: ["rev-list", "--count", ...[ref].flat(), "--"],
     stdout: "piped",
     stderr: "piped",
   });
@@ -155,6 +445,46 @@ export async function countCommits(ref: string = "HEAD"): Promise<number> {
   return parseInt(new TextDecoder().decode(stdout).trim(), 10);
 }
 
+/**
+ * List the commits in a ref or range, or in several revisions together
+ * (like ["HEAD", "feat", "^main"])
+ */
+export async function listCommits(ref: string | string[]): Promise<string[]> {
+  const command = new Deno.Command("git", {
+    args: ["rev-list", ...[ref].flat(), "--"],
+    stdout: "piped",
+    stderr: "piped",
+  });
+  const { code, stdout, stderr } = await command.output();
+  if (code !== 0) {
+    throw new Error(
+      `Failed to list commits: ${new TextDecoder().decode(stderr).trim()}`,
+    );
+  }
+  return new TextDecoder().decode(stdout).split("\n").filter(Boolean);
+}
+
+/**
+ * Resolve revisions (like ["HEAD", "^main"]) to full hashes, keeping any
+ * leading "^"
+ */
+export async function resolveRevisions(revisions: string[]): Promise<string[]> {
+  const command = new Deno.Command("git", {
+    args: ["rev-parse", ...revisions],
+    stdout: "piped",
+    stderr: "piped",
+  });
+  const { code, stdout, stderr } = await command.output();
+  if (code !== 0) {
+    throw new Error(
+      `Failed to resolve ${revisions.join(" ")}: ${
+        new TextDecoder().decode(stderr).trim()
+      }`,
+    );
+  }
+  return new TextDecoder().decode(stdout).split("\n").filter(Boolean);
+}
+
 /**
  * Resolve and verify a git ref
  * Returns true if the ref exists and is valid
@@ -173,10 +503,721 @@ export async function resolveRef(ref: string): Promise<boolean> {
  * Get the tree hash for a commit
  */
 export async function getTreeHash(commitHash: string): Promise<string> {
+  return (await readCommit(commitHash)).tree;
+}
+
+/**
+ * Get a short diffstat of each commit against its first parent, like
+ * "3 files, +10 -2"
+ * Merges (which git log doesn't diff) get an empty string
+ */
+export async function getShortStats(
+  hashes: string[],
+): Promise<Map<string, string>> {
+  const log = new Deno.Command("git", {
+    args: [
+      "log",
+      "--no-walk=unsorted",
+      "--stdin",
+      "--format=%x00%H",
+      "--shortstat",
+    ],
+    stdin: "piped",
+    stdout: "piped",
+    stderr: "piped",
+  }).spawn();
+  const writer = log.stdin.getWriter();
+  await writer.write(new TextEncoder().encode(hashes.join("\n") + "\n"));
+  await writer.close();
+  const { code, stdout, stderr } = await log.output();
+  if (code !== 0) {
+    throw new Error(
+      `git log --shortstat failed: ${new TextDecoder().decode(stderr).trim()}`,
+    );
+  }
+
+  const stats = new Map<string, string>();
+  for (const chunk of new TextDecoder().decode(stdout).split("\0").slice(1)) {
+    const [hash, ...rest] = chunk.trim().split("\n");
+    const summary = rest.join(" ");
+    const count = (pattern: RegExp) => summary.match(pattern)?.[1] ?? "0";
+    const files = count(/(\d+) files? changed/);
+    stats.set(
+      hash,
+      summary.trim() === ""
+        ? ""
+        : `${files} file${files === "1" ? "" : "s"}, ` +
+          `+${count(/(\d+) insertion/)} -${count(/(\d+) deletion/)}`,
+    );
+  }
+  return stats;
+}
+
+/**
+ * Get the diffstat between two trees, one line per file plus a summary
+ */
+export async function getTreeDiffStat(
+  from: string,
+  to: string,
+): Promise<string[]> {
+  const command = new Deno.Command("git", {
+    args: ["diff-tree", "-r", "--stat=80", from, to],
+    stdout: "piped",
+    stderr: "piped",
+  });
+  const { code, stdout, stderr } = await command.output();
+  if (code !== 0) {
+    throw new Error(
+      `git diff-tree failed: ${new TextDecoder().decode(stderr).trim()}`,
+    );
+  }
+  return new TextDecoder().decode(stdout).trimEnd().split("\n").filter(
+    (line) => line !== "",
+  );
+}
+
+/**
+ * Show a commit and its diff with git show, through the user's pager
+ */
+export async function showCommit(hash: string): Promise<void> {
+  const command = new Deno.Command("git", {
+    args: ["show", "--stat", "--patch", hash],
+    stdin: "inherit",
+    stdout: "inherit",
+    stderr: "inherit",
+  });
+  await command.output();
+}
+
+/**
+ * Check if a commit has a GPG, SSH or X.509 signature (without verifying it)
+ */
+export async function hasSignature(commitHash: string): Promise<boolean> {
+  const { headers } = await readCommit(commitHash);
+  return headers.some(({ key }) => key === "gpgsig" || key === "gpgsig-sha256");
+}
+
+/**
+ * Get the hash of the empty tree for this repository's object format
+ */
+export async function getEmptyTree(): Promise<string> {
+  const command = new Deno.Command("git", {
+    args: ["hash-object", "-t", "tree", "--stdin"],
+    stdin: "null",
+    stdout: "piped",
+  });
+  const { stdout } = await command.output();
+  return new TextDecoder().decode(stdout).trim();
+}
+
+/**
+ * Apply the change between two tree-ishes onto another tree
+ * Uses a temporary index and a three-way apply, like cherry-pick, so the
+ * working tree and the real index are never touched
+ * Optional pathspecs limit which part of the change is applied
+ */
+export async function applyDiffToTree(options: {
+  tree: string;
+  from: string;
+  to: string;
+  pathspecs?: string[];
+}): Promise<{ tree: string | null; conflicts: string[] }> {
+  const { tree, from, to, pathspecs = [] } = options;
+
+  const tempDir = await Deno.makeTempDir({ prefix: "git-rescribe-" });
+  const env = {
+    ...Deno.env.toObject(),
+    GIT_INDEX_FILE: `${tempDir}/index`,
+  };
+
+  try {
+    // Start from the target tree
+    const readTree = new Deno.Command("git", {
+      args: ["read-tree", tree],
+      env,
+      stderr: "piped",
+    });
+    const readResult = await readTree.output();
+    if (readResult.code !== 0) {
+      throw new Error(
+        `git read-tree failed: ${
+          new TextDecoder().decode(readResult.stderr).trim()
+        }`,
+      );
+    }
+
+    // Full blob ids let git apply fall back to a three-way merge
+    const diffTree = new Deno.Command("git", {
+      args: [
+        "diff-tree",
+        "-p",
+        "--binary",
+        "--full-index",
+        from,
+        to,
+        "--",
+        ...pathspecs,
+      ],
+      stdout: "piped",
+    });
+    const { stdout: patch } = await diffTree.output();
+
+    if (patch.length > 0) {
+      const apply = new Deno.Command("git", {
+        args: ["apply", "--cached", "--3way"],
+        env,
+        stdin: "piped",
+        stdout: "null",
+        stderr: "piped",
+      }).spawn();
+      const writer = apply.stdin.getWriter();
+      await writer.write(patch);
+      await writer.close();
+      const { code, stderr } = await apply.output();
+
+      if (code !== 0) {
+        const lsFiles = new Deno.Command("git", {
+          args: ["ls-files", "--unmerged", "-z"],
+          env,
+          stdout: "piped",
+        });
+        const { stdout } = await lsFiles.output();
+        const conflicts = new Set<string>();
+        for (const entry of new TextDecoder().decode(stdout).split("\0")) {
+          const tab = entry.indexOf("\t");
+          if (tab !== -1) {
+            conflicts.add(entry.substring(tab + 1));
+          }
+        }
+
+        // Patches that can't even be three-way merged (e.g. a modified file
+        // that no longer exists) leave no unmerged entries behind
+        if (conflicts.size === 0) {
+          const errors = new TextDecoder().decode(stderr);
+          for (const match of errors.matchAll(/^error: (.+?): /gm)) {
+            conflicts.add(match[1]);
+          }
+        }
+
+        return { tree: null, conflicts: [...conflicts] };
+      }
+    }
+
+    const writeTree = new Deno.Command("git", {
+      args: ["write-tree"],
+      env,
+      stdout: "piped",
+    });
+    const { stdout } = await writeTree.output();
+    return { tree: new TextDecoder().decode(stdout).trim(), conflicts: [] };
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+}
+
+/**
+ * Read a git config value
+ * Returns null if the key is not set
+ */
+export async function getConfig(key: string): Promise<string | null> {
+  const command = new Deno.Command("git", {
+    args: ["config", "--get", key],
+    stdout: "piped",
+    stderr: "piped",
+  });
+  const { code, stdout } = await command.output();
+  if (code !== 0) {
+    return null;
+  }
+  return new TextDecoder().decode(stdout).trim();
+}
+
+/**
+ * Read a boolean git config value, normalized by git ("yes", "on", "1", ...)
+ * Returns null if the key is not set
+ */
+export async function getConfigBool(key: string): Promise<boolean | null> {
   const command = new Deno.Command("git", {
-    args: ["rev-parse", `${commitHash}^{tree}`],
+    args: ["config", "--type=bool", "--get", key],
+    stdout: "piped",
+    stderr: "piped",
+  });
+  const { code, stdout } = await command.output();
+  if (code !== 0) {
+    return null;
+  }
+  return new TextDecoder().decode(stdout).trim() === "true";
+}
+
+/**
+ * Read every value of a multi-valued git config key
+ */
+export async function getConfigAll(key: string): Promise<string[]> {
+  const command = new Deno.Command("git", {
+    args: ["config", "--get-all", key],
+    stdout: "piped",
+    stderr: "piped",
+  });
+  const { code, stdout } = await command.output();
+  if (code !== 0) {
+    return [];
+  }
+  return new TextDecoder().decode(stdout).split("\n").filter(Boolean);
+}
+
+/**
+ * Map identities ("Name <email>") through the mailmap
+ * Uses the repository's .mailmap and mailmap.file config, plus an optional
+ * extra mailmap file
+ */
+export async function checkMailmap(
+  identities: string[],
+  options: { file?: string } = {},
+): Promise<Map<string, string>> {
+  const mapped = new Map<string, string>();
+  const unique = [...new Set(identities)];
+
+  // Keep command lines to a reasonable length
+  for (let i = 0; i < unique.length; i += 100) {
+    const chunk = unique.slice(i, i + 100);
+    const configArgs = options.file
+      ? ["-c", `mailmap.file=${options.file}`]
+      : [];
+    const command = new Deno.Command("git", {
+      args: [...configArgs, "check-mailmap", ...chunk],
+      stdout: "piped",
+      stderr: "piped",
+    });
+    const { code, stdout, stderr } = await command.output();
+    if (code !== 0) {
+      throw new Error(
+        `git check-mailmap failed: ${new TextDecoder().decode(stderr).trim()}`,
+      );
+    }
+
+    const lines = new TextDecoder().decode(stdout).trim().split("\n");
+    chunk.forEach((identity, index) => {
+      mapped.set(identity, lines[index]);
+    });
+  }
+
+  return mapped;
+}
+
+/**
+ * Read the text of every mailmap git uses: the worktree's .mailmap,
+ * mailmap.file, mailmap.blob (HEAD:.mailmap in a bare repository), plus an
+ * optional extra mailmap file
+ * Returns null if there is no mailmap at all
+ */
+export async function readMailmap(
+  options: { file?: string } = {},
+): Promise<string | null> {
+  const texts: string[] = [];
+  const readFile = async (path: string) => {
+    try {
+      texts.push(await Deno.readTextFile(path));
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        throw error;
+      }
+    }
+  };
+
+  const topLevel = new Deno.Command("git", {
+    args: ["rev-parse", "--show-toplevel"],
+    stdout: "piped",
+    stderr: "piped",
+  });
+  const { code, stdout } = await topLevel.output();
+  const bare = code !== 0;
+  if (!bare) {
+    await readFile(`${new TextDecoder().decode(stdout).trim()}/.mailmap`);
+  }
+
+  const mailmapFile = new Deno.Command("git", {
+    args: ["config", "--type=path", "--get", "mailmap.file"],
+    stdout: "piped",
+    stderr: "piped",
+  });
+  const fileOutput = await mailmapFile.output();
+  if (fileOutput.code === 0) {
+    await readFile(new TextDecoder().decode(fileOutput.stdout).trim());
+  }
+
+  const blob = await getConfig("mailmap.blob") ??
+    (bare ? "HEAD:.mailmap" : null);
+  const blobObject = blob ? await readObject(blob) : null;
+  if (blobObject?.type === "blob") {
+    texts.push(new TextDecoder().decode(blobObject.content));
+  }
+
+  if (options.file) {
+    await readFile(options.file);
+  }
+
+  return texts.length > 0 ? texts.join("\n") : null;
+}
+
+/**
+ * Parse a date the way git does for GIT_AUTHOR_DATE / GIT_COMMITTER_DATE
+ * Returns null if git can't parse it
+ */
+export async function parseGitDate(
+  date: string,
+): Promise<{ timestamp: number; offset: number } | null> {
+  const command = new Deno.Command("git", {
+    args: ["var", "GIT_AUTHOR_IDENT"],
+    env: {
+      ...Deno.env.toObject(),
+      GIT_AUTHOR_NAME: "git-rescribe",
+      GIT_AUTHOR_EMAIL: "git-rescribe",
+      GIT_AUTHOR_DATE: date,
+    },
+    stdout: "piped",
+    stderr: "piped",
+  });
+  const { code, stdout } = await command.output();
+  if (code !== 0) {
+    return null;
+  }
+
+  // Output looks like "Name <email> 1700000000 -0500"
+  const match = new TextDecoder().decode(stdout).trim().match(
+    / (\d+) ([+-])(\d{2})(\d{2})$/,
+  );
+  if (!match) {
+    return null;
+  }
+  const [, timestamp, sign, hours, minutes] = match;
+  return {
+    timestamp: Number(timestamp),
+    offset: (sign === "-" ? -1 : 1) * (Number(hours) * 60 + Number(minutes)),
+  };
+}
+
+/**
+ * List refs matching the given patterns (e.g. "refs/heads")
+ * For annotated tags, peeled is the commit the tag points at
+ */
+export async function listRefs(patterns: string[]): Promise<
+  { name: string; object: string; type: string; peeled: string | null }[]
+> {
+  const command = new Deno.Command("git", {
+    args: [
+      "for-each-ref",
+      "--format=%(refname)%00%(objectname)%00%(objecttype)%00%(*objectname)",
+      ...patterns,
+    ],
+    stdout: "piped",
+  });
+  const { stdout } = await command.output();
+
+  return new TextDecoder().decode(stdout).split("\n").filter(Boolean).map(
+    (line) => {
+      const [name, object, type, peeled] = line.split("\0");
+      return { name, object, type, peeled: peeled || null };
+    },
+  );
+}
+
+/**
+ * Point a ref at a new object
+ * If oldValue is given, fails unless the ref still points there
+ */
+export async function updateRef(
+  ref: string,
+  newValue: string,
+  options: { oldValue?: string; message?: string } = {},
+): Promise<void> {
+  const { oldValue, message } = options;
+  const command = new Deno.Command("git", {
+    args: [
+      "update-ref",
+      ...(message ? ["-m", message] : []),
+      ref,
+      newValue,
+      ...(oldValue ? [oldValue] : []),
+    ],
+    stderr: "piped",
+  });
+  const { code, stderr } = await command.output();
+  if (code !== 0) {
+    throw new Error(
+      `Failed to update ${ref}: ${new TextDecoder().decode(stderr).trim()}`,
+    );
+  }
+}
+
+/**
+ * Re-create an annotated tag object pointing at a different commit
+ * Keeps the original tag name, tagger and message; a signature can't
+ * survive the change, so it is dropped
+ */
+export async function retargetTag(
+  tagObject: string,
+  newTarget: string,
+): Promise<string> {
+  const catFile = new Deno.Command("git", {
+    args: ["cat-file", "tag", tagObject],
+    stdout: "piped",
+  });
+  const { stdout } = await catFile.output();
+  const original = new TextDecoder().decode(stdout);
+
+  const retargeted = original
+    .replace(/^object [0-9a-f]+$/m, `object ${newTarget}`)
+    .replace(/-----BEGIN (PGP|SSH) SIGNATURE-----[\s\S]*$/, "");
+
+  const mktag = new Deno.Command("git", {
+    args: ["mktag"],
+    stdin: "piped",
+    stdout: "piped",
+    stderr: "piped",
+  }).spawn();
+  const writer = mktag.stdin.getWriter();
+  await writer.write(new TextEncoder().encode(retargeted));
+  await writer.close();
+  const result = await mktag.output();
+  if (result.code !== 0) {
+    throw new Error(
+      `git mktag failed: ${new TextDecoder().decode(result.stderr).trim()}`,
+    );
+  }
+  return new TextDecoder().decode(result.stdout).trim();
+}
+
+/**
+ * Notes refs whose notes should follow rewritten commits, the way git
+ * decides for a rewriting command ("rebase", "amend"): notes.rewriteRef
+ * (or GIT_NOTES_REWRITE_REF) picks the refs, and notes.rewrite.<command>
+ * can turn copying off
+ */
+export async function getNotesRewriteRefs(
+  rewriteCommand: string,
+): Promise<string[]> {
+  if (await getConfigBool(`notes.rewrite.${rewriteCommand}`) === false) {
+    return [];
+  }
+
+  const fromEnv = Deno.env.get("GIT_NOTES_REWRITE_REF");
+  const patterns =
+    (fromEnv !== undefined
+      ? fromEnv.split(":")
+      : await getConfigAll("notes.rewriteRef"))
+      .filter((pattern) => pattern.startsWith("refs/notes/"));
+  if (patterns.length === 0) {
+    return [];
+  }
+
+  // Patterns may be globs ("refs/notes/*")
+  return (await listRefs(patterns)).map((ref) => ref.name);
+}
+
+/**
+ * List the objects that have a note in a notes ref
+ */
+export async function listNotedObjects(notesRef: string): Promise<Set<string>> {
+  const command = new Deno.Command("git", {
+    args: ["notes", `--ref=${notesRef}`, "list"],
+    stdout: "piped",
+    stderr: "piped",
+  });
+  const { code, stdout } = await command.output();
+  if (code !== 0) {
+    return new Set();
+  }
+
+  return new Set(
+    new TextDecoder().decode(stdout).split("\n").filter(Boolean)
+      .map((line) => line.split(" ")[1]),
+  );
+}
+
+/**
+ * Copy notes from original commits to their rewritten versions
+ * git applies the same config as getNotesRewriteRefs, plus
+ * notes.rewriteMode for commits that end up with several notes
+ */
+export async function copyNotesForRewrite(
+  rewriteCommand: string,
+  rewritten: [string, string][], // [original, new]
+): Promise<void> {
+  const notes = new Deno.Command("git", {
+    args: ["notes", "copy", `--for-rewrite=${rewriteCommand}`, "--stdin"],
+    stdin: "piped",
+    stdout: "null",
+    stderr: "piped",
+  }).spawn();
+  const writer = notes.stdin.getWriter();
+  await writer.write(
+    new TextEncoder().encode(
+      rewritten.map(([from, to]) => `${from} ${to}\n`).join(""),
+    ),
+  );
+  await writer.close();
+  const { code, stderr } = await notes.output();
+  if (code !== 0) {
+    throw new Error(
+      `git notes copy failed: ${new TextDecoder().decode(stderr).trim()}`,
+    );
+  }
+}
+
+/**
+ * Delete a ref
+ */
+export async function deleteRef(ref: string): Promise<void> {
+  const command = new Deno.Command("git", {
+    args: ["update-ref", "-d", ref],
+    stderr: "piped",
+  });
+  const { code, stderr } = await command.output();
+  if (code !== 0) {
+    throw new Error(
+      `Failed to delete ${ref}: ${new TextDecoder().decode(stderr).trim()}`,
+    );
+  }
+}
+
+/**
+ * Get the object a ref points at, without peeling tags
+ * Returns null if the ref doesn't exist
+ */
+export async function getRefHash(ref: string): Promise<string | null> {
+  const command = new Deno.Command("git", {
+    args: ["rev-parse", "--verify", "--quiet", ref],
+    stdout: "piped",
+    stderr: "piped",
+  });
+  const { code, stdout } = await command.output();
+  if (code !== 0) {
+    return null;
+  }
+  return new TextDecoder().decode(stdout).trim();
+}
+
+/**
+ * Get the full name of the checked-out branch (e.g. "refs/heads/main")
+ * Returns "HEAD" when HEAD is detached
+ */
+export async function getCurrentRef(): Promise<string> {
+  const command = new Deno.Command("git", {
+    args: ["symbolic-ref", "--quiet", "HEAD"],
+    stdout: "piped",
+    stderr: "piped",
+  });
+  const { code, stdout } = await command.output();
+  if (code !== 0) {
+    return "HEAD";
+  }
+  return new TextDecoder().decode(stdout).trim();
+}
+
+/**
+ * Resolve a path inside the git directory (e.g. "MERGE_HEAD")
+ */
+export async function getGitPath(name: string): Promise<string> {
+  const command = new Deno.Command("git", {
+    args: ["rev-parse", "--git-path", name],
     stdout: "piped",
   });
   const { stdout } = await command.output();
   return new TextDecoder().decode(stdout).trim();
 }
+
+/**
+ * Run a hook from the repository's hooks directory (or core.hooksPath)
+ * Returns its exit code, or null if there is no executable hook by that name
+ * Like git, the hook's output all goes to stderr
+ */
+export async function runHook(
+  name: string,
+  args: string[],
+  input = "",
+): Promise<number | null> {
+  const path = await getGitPath(`hooks/${name}`);
+  try {
+    const { mode } = await Deno.stat(path);
+    if (mode !== null && (mode & 0o111) === 0) {
+      return null;
+    }
+  } catch {
+    return null;
+  }
+
+  const hook = new Deno.Command(path, {
+    args,
+    stdin: "piped",
+    stdout: "piped",
+    stderr: "inherit",
+  }).spawn();
+  // Hooks don't have to read their input
+  const writer = hook.stdin.getWriter();
+  await writer.write(new TextEncoder().encode(input)).catch(() => {});
+  await writer.close().catch(() => {});
+  const { code, stdout } = await hook.output();
+  await Deno.stderr.write(stdout);
+  return code;
+}
+
+/**
+ * Check whether tracked files have uncommitted changes
+ * Untracked files are ignored, since a hard reset leaves them alone
+ */
+export async function hasUncommittedChanges(): Promise<boolean> {
+  const command = new Deno.Command("git", {
+    args: ["status", "--porcelain", "--untracked-files=no"],
+    stdout: "piped",
+  });
+  const { stdout } = await command.output();
+  return new TextDecoder().decode(stdout).trim() !== "";
+}
+
+/**
+ * Save uncommitted changes as a stash commit and clean the working tree
+ * Like git rebase --autostash, the stash is not added to the stash list
+ */
+export async function createAutostash(): Promise<string> {
+  const create = new Deno.Command("git", {
+    args: ["stash", "create", "rescribe: autostash"],
+    stdout: "piped",
+  });
+  const { stdout } = await create.output();
+  const hash = new TextDecoder().decode(stdout).trim();
+
+  const reset = new Deno.Command("git", {
+    args: ["reset", "--hard", "--quiet"],
+  });
+  await reset.output();
+
+  return hash;
+}
+
+/**
+ * Re-apply an autostash
+ * If it doesn't apply cleanly, it is stored in the stash list instead
+ * Returns false in that case
+ */
+export async function applyAutostash(hash: string): Promise<boolean> {
+  const apply = new Deno.Command("git", {
+    args: ["stash", "apply", hash],
+    stdout: "piped",
+    stderr: "piped",
+  });
+  const { code } = await apply.output();
+  if (code === 0) {
+    return true;
+  }
+
+  const reset = new Deno.Command("git", {
+    args: ["reset", "--hard", "--quiet"],
+  });
+  await reset.output();
+
+  const store = new Deno.Command("git", {
+    args: ["stash", "store", "-m", "rescribe: autostash", hash],
+  });
+  await store.output();
+  return false;
+}
@@ -0,0 +1,125 @@
+/**
+ * Build git packfiles in memory, for writing many objects at once
+ * Could be published as: @std/git-pack or deno.land/x/git-pack
+ */
+
+export type ObjectFormat = "sha1" | "sha256";
+
+export type ObjectType = "commit" | "tree" | "blob" | "tag";
+
+/**
+ * An object waiting to be packed
+ */
+export interface PackObject {
+  type: ObjectType;
+  content: Uint8Array;
+}
+
+const TYPE_CODES: Record<ObjectType, number> = {
+  commit: 1,
+  tree: 2,
+  blob: 3,
+  tag: 4,
+};
+
+const DIGESTS: Record<ObjectFormat, string> = {
+  sha1: "SHA-1",
+  sha256: "SHA-256",
+};
+
+/**
+ * Compute the id git gives an object, without writing it
+ */
+export async function hashObject(
+  object: PackObject,
+  format: ObjectFormat,
+): Promise<string> {
+  const header = new TextEncoder().encode(
+    `${object.type} ${object.content.length}\0`,
+  );
+  return toHex(await digest(concat([header, object.content]), format));
+}
+
+/**
+ * Build a version 2 packfile holding the objects, without deltas
+ */
+export async function buildPack(
+  objects: PackObject[],
+  format: ObjectFormat,
+): Promise<Uint8Array> {
+  const header = new Uint8Array(12);
+  const view = new DataView(header.buffer);
+  header.set(new TextEncoder().encode("PACK"));
+  view.setUint32(4, 2);
+  view.setUint32(8, objects.length);
+
+  const parts: Uint8Array[] = [header];
+  for (const object of objects) {
+    parts.push(entryHeader(object));
+    parts.push(await deflate(object.content));
+  }
+
+  const body = concat(parts);
+  return concat([body, await digest(body, format)]);
+}
+
+/**
+ * Type and size of a pack entry, as a variable-length integer
+ */
+function entryHeader(object: PackObject): Uint8Array {
+  const bytes: number[] = [];
+  let size = object.content.length;
+  let byte = (TYPE_CODES[object.type] << 4) | (size & 0x0f);
+  size = Math.floor(size / 16);
+  while (size > 0) {
+    bytes.push(byte | 0x80);
+    byte = size & 0x7f;
+    size = Math.floor(size / 128);
+  }
+  bytes.push(byte);
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Compress with zlib, as pack entries are
+ */
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([new Uint8Array(data)]).stream().pipeThrough(
+    new CompressionStream("deflate"),
+  );
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Hash data with the object format's algorithm
+ */
+async function digest(
+  data: Uint8Array,
+  format: ObjectFormat,
+): Promise<Uint8Array> {
+  return new Uint8Array(
+    await crypto.subtle.digest(DIGESTS[format], new Uint8Array(data)),
+  );
+}
+
+/**
+ * Join byte arrays
+ */
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Format bytes as lowercase hex
+ */
+function toHex(bytes: Uint8Array): string {
+  return [...bytes].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,44 @@
+/**
+ * Progress indicator for long-running loops
+ * Could be published as: @std/progress or deno.land/x/progress-line
+ */
+
+// Redraw at most this often, in milliseconds
+const REDRAW_INTERVAL = 100;
+
+/**
+ * A single self-updating line on stderr, like "Rewriting commits: 120/10000"
+ * Only shown when stderr is a terminal, so logs and pipes stay clean
+ */
+export function createProgress(label: string, total: number): {
+  tick: () => void;
+  done: () => void;
+} {
+  const enabled = Deno.stderr.isTerminal() && total > 0;
+  const encoder = new TextEncoder();
+  let current = 0;
+  let lastDraw = 0;
+
+  const draw = () => {
+    const percent = Math.floor((current / total) * 100);
+    Deno.stderr.writeSync(
+      encoder.encode(`\r\x1b[K${label}: ${current}/${total} (${percent}%)`),
+    );
+    lastDraw = Date.now();
+  };
+
+  return {
+    tick() {
+      current++;
+      if (enabled && Date.now() - lastDraw >= REDRAW_INTERVAL) {
+        draw();
+      }
+    },
+    done() {
+      if (enabled) {
+        draw();
+        Deno.stderr.writeSync(encoder.encode("\n"));
+      }
+    },
+  };
+}
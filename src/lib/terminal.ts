@@ -0,0 +1,176 @@
+/**
+ * Full-screen terminal utilities: raw key input, the alternate screen and a
+ * one-line prompt
+ * Could be published as: @std/terminal-screen or deno.land/x/raw-screen
+ */
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Escape sequences for keys that aren't plain characters
+const KEY_SEQUENCES: Record<string, string> = {
+  "\x1b[A": "up",
+  "\x1b[B": "down",
+  "\x1b[C": "right",
+  "\x1b[D": "left",
+  "\x1bOA": "up",
+  "\x1bOB": "down",
+  "\x1b[5~": "pageup",
+  "\x1b[6~": "pagedown",
+  "\x1b[H": "home",
+  "\x1b[F": "end",
+  "\x1b[1~": "home",
+  "\x1b[4~": "end",
+  "\r": "enter",
+  "\n": "enter",
+  "\x1b": "escape",
+  "\x7f": "backspace",
+  "\b": "backspace",
+  "\x03": "ctrl-c",
+  "\x15": "ctrl-u",
+  " ": "space",
+};
+
+/**
+ * Switch to the alternate screen with raw input, so keys arrive one at a
+ * time and the shell's screen comes back untouched
+ */
+export function enterFullScreen(): void {
+  Deno.stdin.setRaw(true);
+  write("\x1b[?1049h\x1b[?25l");
+}
+
+/**
+ * Go back to the normal screen and line input
+ */
+export function leaveFullScreen(): void {
+  write("\x1b[?25h\x1b[?1049l");
+  Deno.stdin.setRaw(false);
+}
+
+/**
+ * Run something that needs the normal screen (an editor, a pager) from a
+ * full-screen program
+ */
+export async function withNormalScreen<T>(run: () => Promise<T>): Promise<T> {
+  leaveFullScreen();
+  try {
+    return await run();
+  } finally {
+    enterFullScreen();
+  }
+}
+
+/**
+ * Size of the terminal, in characters
+ */
+export function screenSize(): { columns: number; rows: number } {
+  try {
+    return Deno.consoleSize();
+  } catch {
+    return { columns: 80, rows: 24 };
+  }
+}
+
+/**
+ * Replace the whole screen with these lines
+ */
+export function drawScreen(lines: string[]): void {
+  write(`\x1b[H\x1b[2J${lines.join("\r\n")}`);
+}
+
+/**
+ * Wait for a key press
+ * Returns a name like "up", "enter" or "space" for special keys, and the
+ * typed text otherwise (more than one character when text is pasted)
+ */
+export async function readKey(): Promise<string> {
+  const input = await readInput();
+  return KEY_SEQUENCES[input] ?? input;
+}
+
+/**
+ * Ask for a line of text on the last row of the screen
+ * Returns null if the prompt is cancelled with Escape or Ctrl-C
+ */
+export async function promptLine(
+  label: string,
+  initial = "",
+): Promise<string | null> {
+  const { rows } = screenSize();
+  let value = initial;
+
+  write("\x1b[?25h");
+  try {
+    while (true) {
+      write(`\x1b[${rows};1H\x1b[2K${label}${value}`);
+      // Raw input, so typed text can't be mistaken for a key name; other
+      // escape sequences (arrow keys) are ignored
+      const input = await readInput();
+      if (input.startsWith("\x1b")) {
+        if (input === "\x1b") {
+          return null;
+        }
+        continue;
+      }
+
+      // Typing ahead can send several keys at once
+      for (const char of input) {
+        const key = KEY_SEQUENCES[char];
+        if (key === "enter") {
+          return value;
+        }
+        if (key === "ctrl-c") {
+          return null;
+        }
+        if (key === "backspace") {
+          value = [...value].slice(0, -1).join("");
+        } else if (key === "ctrl-u") {
+          value = "";
+        } else if (char >= " ") {
+          value += char;
+        }
+      }
+    }
+  } finally {
+    write("\x1b[?25l");
+  }
+}
+
+/**
+ * Reverse video, for the line under the cursor
+ */
+export function inverse(text: string): string {
+  return `\x1b[7m${text}\x1b[27m`;
+}
+
+/**
+ * Color text with one of the basic ANSI colors
+ */
+export function color(
+  text: string,
+  name: "red" | "green" | "yellow" | "blue" | "gray",
+): string {
+  const codes = { red: 31, green: 32, yellow: 33, blue: 34, gray: 90 };
+  return `\x1b[${codes[name]}m${text}\x1b[39m`;
+}
+
+/**
+ * Read what the terminal sent for one key press (or one paste)
+ * The end of input counts as Ctrl-C
+ */
+async function readInput(): Promise<string> {
+  const buffer = new Uint8Array(64);
+  const count = await Deno.stdin.read(buffer);
+  if (count === null) {
+    return "\x03";
+  }
+  return decoder.decode(buffer.subarray(0, count));
+}
+
+/**
+ * Write text to the terminal right away
+ */
+function write(text: string): void {
+  Deno.stdout.writeSync(encoder.encode(text));
+}
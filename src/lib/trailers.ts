@@ -0,0 +1,127 @@
+/**
+ * Commit message trailer utilities
+ * Could be published as: @std/git-trailers or deno.land/x/git-trailers
+ */
+
+const TRAILER_LINE = /^([A-Za-z0-9-]+):\s*(.*)$/;
+
+/**
+ * Split a message into its body and trailing trailer block (if any)
+ * The trailer block is the last paragraph, when every line in it is a
+ * "Key: value" trailer or an indented continuation of one
+ * head is everything before the trailer block, blank line included, and
+ * tail the line endings after it
+ * Trailers are returned without line endings; eol is "\r\n" for CRLF
+ * messages, so they can be put back together the same way
+ */
+function splitTrailerBlock(
+  message: string,
+): {
+  body: string;
+  head: string;
+  trailers: string[];
+  tail: string;
+  eol: string;
+} {
+  const eol = /\r(\n|$)/.test(message) ? "\r\n" : "\n";
+  // Only line endings are trimmed, so nothing else in the message changes
+  const trimmed = message.replace(/(\r?\n)*\r?$/, "");
+  const tail = message.substring(trimmed.length);
+  const blankLine = trimmed.search(/\n\r?\n(?![\s\S]*\n\r?\n)/);
+  if (blankLine === -1) {
+    return { body: trimmed, head: trimmed, trailers: [], tail, eol };
+  }
+
+  const head = trimmed.substring(0, blankLine) +
+    trimmed.substring(blankLine).match(/^\n\r?\n/)![0];
+  const lastParagraph = trimmed
+    .substring(head.length)
+    .split("\n")
+    .map((line) => line.replace(/\r$/, ""));
+  const isTrailerBlock = TRAILER_LINE.test(lastParagraph[0]) &&
+    lastParagraph.every((line) =>
+      TRAILER_LINE.test(line) || /^\s+\S/.test(line)
+    );
+
+  if (!isTrailerBlock) {
+    return { body: trimmed, head: trimmed, trailers: [], tail, eol };
+  }
+
+  return {
+    body: trimmed.substring(0, blankLine).replace(/[\r\n]+$/, ""),
+    head,
+    trailers: lastParagraph,
+    tail,
+    eol,
+  };
+}
+
+/**
+ * Remove all trailers with the given key from a message
+ * Returns the remaining message, the removed values in order, and how many
+ * of the remaining trailers came before the first removed one (null if none
+ * were removed), so addTrailers can put them back in the same place
+ */
+export function extractTrailers(
+  message: string,
+  key: string,
+): { message: string; values: string[]; position: number | null } {
+  const { body, head, trailers, tail, eol } = splitTrailerBlock(message);
+  if (trailers.length === 0) {
+    return { message, values: [], position: null };
+  }
+
+  const values: string[] = [];
+  const kept: string[] = [];
+  let position: number | null = null;
+  for (const line of trailers) {
+    const match = line.match(TRAILER_LINE);
+    if (match && match[1].toLowerCase() === key.toLowerCase()) {
+      values.push(match[2].trim());
+      position ??= kept.length;
+    } else {
+      kept.push(line);
+    }
+  }
+
+  if (values.length === 0) {
+    return { message, values: [], position: null };
+  }
+
+  return {
+    message: kept.length > 0
+      ? `${head}${kept.join(eol)}${tail}`
+      : `${body}${tail}`,
+    values,
+    position,
+  };
+}
+
+/**
+ * Add trailers with the given key to a message
+ * Joins an existing trailer block instead of starting a new paragraph, at
+ * the given position in it (the end by default)
+ */
+export function addTrailers(
+  message: string,
+  key: string,
+  values: string[],
+  position?: number,
+): string {
+  if (values.length === 0) {
+    return message;
+  }
+
+  const lines = values.map((value) => `${key}: ${value}`);
+  const { body, head, trailers, tail, eol } = splitTrailerBlock(message);
+
+  if (body === "" && trailers.length === 0) {
+    return lines.join(eol);
+  }
+  if (trailers.length > 0) {
+    const at = Math.min(position ?? trailers.length, trailers.length);
+    trailers.splice(at, 0, ...lines);
+    return `${head}${trailers.join(eol)}${tail}`;
+  }
+  return `${body}${eol}${eol}${lines.join(eol)}${tail}`;
+}